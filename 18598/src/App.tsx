@@ -3,24 +3,44 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { LoggedErrorBoundary } from "./components/LoggedErrorBoundary";
+import { LoggerProvider } from "./components/LoggerProvider";
+import { RouteLogger } from "./components/RouteLogger";
+import { createConsoleTransport, type LoggerOptions } from "./lib/logger";
+import { createLoggedQueryCaches } from "./lib/log-query";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient(createLoggedQueryCaches());
+
+const loggerOptions: LoggerOptions = {
+  offlineQueue: true,
+  transports: [createConsoleTransport()]
+};
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <LoggerProvider
+      options={loggerOptions}
+      captureConsole={{ methods: ["warn", "error"] }}
+      fetchInstrumentation={{}}
+      webVitals={{}}
+    >
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <RouteLogger />
+          <LoggedErrorBoundary>
+            <Routes>
+              <Route path="/" element={<Index />} />
+            
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </LoggedErrorBoundary>
+        </BrowserRouter>
+      </TooltipProvider>
+    </LoggerProvider>
   </QueryClientProvider>
 );
 
@@ -4,13 +4,54 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { authenticate, type AuthCredentials } from "@/lib/logger";
+import {
+  authenticate,
+  AuthRejectedError,
+  HttpError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+  type AuthCredentials,
+  type AuthResponse
+} from "@/lib/logger";
 
 interface AuthSectionProps {
-  onAuthSuccess: (token: string) => void;
+  onAuthSuccess: (credentials: AuthCredentials, response: AuthResponse) => void;
   isAuthenticated: boolean;
 }
 
+/**
+ * Turn an authentication failure into guidance the user can act on
+ * @param cause Error thrown by authenticate
+ * @returns Toast description
+ */
+function describeAuthError(cause: unknown): string {
+  if (cause instanceof ValidationError) {
+    return cause.schema === "AuthCredentials"
+      ? `Please fix these fields: ${cause.issues.map(issue => issue.path || issue.message).join(", ")}`
+      : "The server sent an unexpected response. Please try again later.";
+  }
+  if (cause instanceof AuthRejectedError) {
+    return "The server did not accept your client ID, client secret or access code. Check them and try again.";
+  }
+  if (cause instanceof HttpError) {
+    if (cause.status === 400) {
+      return `The server rejected the request${cause.serverMessage ? `: ${cause.serverMessage}` : ""}. Check that every field matches your registration.`;
+    }
+    if (cause.status >= 500) {
+      return `The evaluation server is having problems (status ${cause.status}). Please try again in a few minutes.`;
+    }
+    return `Authentication failed with status ${cause.status}${cause.serverMessage ? `: ${cause.serverMessage}` : ""}`;
+  }
+  if (cause instanceof TimeoutError) {
+    return "The evaluation server took too long to respond. Please try again.";
+  }
+  if (cause instanceof NetworkError) {
+    return "Could not reach the evaluation server. Check your connection and try again.";
+  }
+  return "Please check your credentials and try again";
+}
+
 export function AuthSection({ onAuthSuccess, isAuthenticated }: AuthSectionProps) {
   const [credentials, setCredentials] = useState<AuthCredentials>({
     email: "",
@@ -31,7 +72,7 @@ export function AuthSection({ onAuthSuccess, isAuthenticated }: AuthSectionProps
     setIsLoading(true);
     try {
       const response = await authenticate(credentials);
-      onAuthSuccess(response.access_token);
+      onAuthSuccess(credentials, response);
       toast({
         title: "🔐 Authentication Successful",
         description: "You can now send logs to the server",
@@ -40,7 +81,7 @@ export function AuthSection({ onAuthSuccess, isAuthenticated }: AuthSectionProps
     } catch (error) {
       toast({
         title: "❌ Authentication Failed",
-        description: "Please check your credentials and try again",
+        description: describeAuthError(error),
         variant: "destructive"
       });
     } finally {
@@ -0,0 +1,80 @@
+import { Component, type ErrorInfo, type ReactNode } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { getAppLogger } from "@/lib/app-logger";
+import { reportSafely, type ChildLogger } from "@/lib/logger";
+
+interface FallbackProps {
+  error: Error;
+  reset: () => void;
+}
+
+interface LoggedErrorBoundaryProps {
+  children: ReactNode;
+  /** UI shown after a crash; a function receives the error and a reset callback */
+  fallback?: ReactNode | ((props: FallbackProps) => ReactNode);
+  /** Logger to report through; defaults to the current session's logger */
+  logger?: Pick<ChildLogger, "fatal">;
+  /** Called when the user asks to try again, before the children are rendered again */
+  onReset?: () => void;
+}
+
+interface LoggedErrorBoundaryState {
+  error: Error | null;
+}
+
+const renderDefaultFallback = ({ error, reset }: FallbackProps) => (
+  <div className="flex min-h-screen items-center justify-center bg-background p-4">
+    <Card className="max-w-lg w-full border-destructive">
+      <CardHeader>
+        <CardTitle className="text-destructive flex items-center gap-2">💀 Something went wrong</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-muted-foreground">
+          This part of the app crashed while rendering. You can try rendering it again.
+        </p>
+        <pre className="text-xs bg-muted p-2 rounded overflow-x-auto">{error.message}</pre>
+        <Button onClick={reset} className="w-full">
+          🔄 Try again
+        </Button>
+      </CardContent>
+    </Card>
+  </div>
+);
+
+/**
+ * Error boundary that sends a fatal "component" log with the component stack
+ * for every render crash, then shows a fallback with a reset.
+ * Crashes before a logger is available are only printed to the console.
+ */
+export class LoggedErrorBoundary extends Component<LoggedErrorBoundaryProps, LoggedErrorBoundaryState> {
+  state: LoggedErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): LoggedErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    const logger = this.props.logger ?? getAppLogger();
+    if (!logger) return;
+    reportSafely(logger, "fatal", "component", `Render crash: ${error.name}: ${error.message}`, {
+      errorName: error.name,
+      stack: error.stack,
+      componentStack: info.componentStack?.trim()
+    });
+  }
+
+  reset = () => {
+    this.props.onReset?.();
+    this.setState({ error: null });
+  };
+
+  render() {
+    const { error } = this.state;
+    if (!error) return this.props.children;
+
+    const { fallback } = this.props;
+    if (typeof fallback === "function") return fallback({ error, reset: this.reset });
+    return fallback ?? renderDefaultFallback({ error, reset: this.reset });
+  }
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { LoggerContext, type LoggerContextValue } from "@/hooks/use-logger";
+import {
+  createLogger,
+  installGlobalHandlers,
+  instrumentFetch,
+  interceptConsole,
+  observeWebVitals,
+  setAppLogger,
+  type AuthCredentials,
+  type AuthResponse,
+  type ConsoleInterceptOptions,
+  type FetchInstrumentationOptions,
+  type GlobalHandlerOptions,
+  type Logger,
+  type LoggerOptions,
+  type WebVitalsOptions
+} from "@/lib/logger";
+import { createTokenManager, type TokenManager } from "@/lib/token-manager";
+
+interface LoggerProviderProps {
+  children: ReactNode;
+  /** Options for the logger created at sign-in; read once per session */
+  options?: LoggerOptions;
+  /** Report uncaught errors and unhandled rejections (default on) */
+  globalHandlers?: GlobalHandlerOptions | false;
+  /** Forward console output through the logger (default off) */
+  captureConsole?: ConsoleInterceptOptions | false;
+  /** Log every request made with window.fetch (default off) */
+  fetchInstrumentation?: FetchInstrumentationOptions | false;
+  /** Report Web Vitals and page timing (default off) */
+  webVitals?: WebVitalsOptions | false;
+}
+
+/**
+ * Owns the authenticated session: keeps the token fresh, creates the logger
+ * at sign-in, installs the app-wide integrations and registers the logger
+ * for code outside React. Components read it with useLogger.
+ */
+export function LoggerProvider({ children, ...props }: LoggerProviderProps) {
+  const [session, setSession] = useState<TokenManager | null>(null);
+  const [logger, setLogger] = useState<Logger | null>(null);
+  // Integrations and options are applied per session, not on every render
+  const config = useRef(props);
+  useEffect(() => {
+    config.current = props;
+  });
+
+  // Creating the logger starts listeners and the offline replay, so it
+  // happens here rather than during render
+  useEffect(() => {
+    if (!session) return;
+    const { options, globalHandlers = {}, captureConsole = false, fetchInstrumentation = false, webVitals = false } =
+      config.current;
+    const logger = createLogger(session, options);
+    const cleanups = [
+      globalHandlers && installGlobalHandlers(logger, globalHandlers),
+      captureConsole && interceptConsole(logger, captureConsole),
+      fetchInstrumentation &&
+        instrumentFetch(logger, { config: options?.config, ...fetchInstrumentation }),
+      webVitals && observeWebVitals(logger, webVitals)
+    ];
+    setAppLogger(logger);
+    setLogger(logger);
+
+    return () => {
+      setLogger(null);
+      setAppLogger(null);
+      cleanups.forEach(cleanup => cleanup && cleanup());
+      logger.dispose();
+    };
+  }, [session]);
+
+  const signIn = useCallback((credentials: AuthCredentials, response: AuthResponse) => {
+    setSession(createTokenManager(credentials, { initial: response }));
+  }, []);
+
+  const signOut = useCallback(() => setSession(null), []);
+
+  const value = useMemo<LoggerContextValue>(
+    () => ({ logger, session, isAuthenticated: session !== null, signIn, signOut }),
+    [logger, session, signIn, signOut]
+  );
+
+  return <LoggerContext.Provider value={value}>{children}</LoggerContext.Provider>;
+}
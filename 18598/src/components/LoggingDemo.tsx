@@ -2,8 +2,15 @@ import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { useLogger } from "@/hooks/use-logger";
 import { useToast } from "@/hooks/use-toast";
-import { logToServer, type LogLevel, type FrontendPackage } from "@/lib/logger";
+import {
+  LogQueuedError,
+  LoggerError,
+  type FrontendPackage,
+  type LogContext,
+  type LogLevel,
+} from "@/lib/logger";
 
 interface LogEntry {
   id: string;
@@ -11,28 +18,47 @@ interface LogEntry {
   level: LogLevel;
   package: FrontendPackage;
   message: string;
-  status: "success" | "error";
+  context?: LogContext;
+  status: "success" | "error" | "queued";
+  attempts: number;
 }
 
-interface LoggingDemoProps {
-  token: string | null;
-}
-
-const LOG_EXAMPLES = [
-  { level: "debug" as LogLevel, package: "utils" as FrontendPackage, message: "Debug trace: Processing user input validation" },
-  { level: "info" as LogLevel, package: "component" as FrontendPackage, message: "User interface rendered successfully" },
-  { level: "warn" as LogLevel, package: "api" as FrontendPackage, message: "API response time exceeded 2 seconds" },
-  { level: "error" as LogLevel, package: "auth" as FrontendPackage, message: "Failed to refresh authentication token" },
-  { level: "fatal" as LogLevel, package: "page" as FrontendPackage, message: "Critical error: Application crashed unexpectedly" },
+const LOG_EXAMPLES: { level: LogLevel; package: FrontendPackage; message: string; context?: LogContext }[] = [
+  { level: "debug", package: "utils", message: "Debug trace: Processing user input validation", context: { field: "email", valid: true } },
+  { level: "info", package: "component", message: "User interface rendered successfully" },
+  { level: "error", package: "auth", message: "Failed to refresh authentication token" },
+  { level: "fatal", package: "page", message: "Critical error: Application crashed unexpectedly" },
 ];
 
-export function LoggingDemo({ token }: LoggingDemoProps) {
+export function LoggingDemo() {
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isLoading, setIsLoading] = useState<string | null>(null);
   const { toast } = useToast();
+  const logger = useLogger();
 
-  const sendLog = async (level: LogLevel, pkg: FrontendPackage, message: string) => {
-    if (!token) {
+  const sendMeasuredRequest = async () => {
+    setIsLoading("request");
+    const startedAt = performance.now();
+    try {
+      const response = await fetch("/robots.txt", { cache: "no-store" });
+      toast({
+        title: "🌐 Request Logged",
+        description: `GET /robots.txt → ${response.status} in ${Math.round(performance.now() - startedAt)}ms`,
+        variant: "default"
+      });
+    } catch {
+      toast({
+        title: "🌐 Request Failed",
+        description: "The network failure was logged at error level",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  const sendLog = async (level: LogLevel, pkg: FrontendPackage, message: string, context?: LogContext) => {
+    if (!logger) {
       toast({
         title: "❌ No Authentication Token",
         description: "Please authenticate first",
@@ -45,40 +71,63 @@ export function LoggingDemo({ token }: LoggingDemoProps) {
     setIsLoading(logKey);
 
     try {
-      const response = await logToServer(token, level, pkg, message);
-      
+      const response = await logger[level](pkg, message, context);
+      if (!response) {
+        toast({
+          title: "🔇 Log Not Sent",
+          description: `${level.toUpperCase()} is below the minimum level, sampled out or throttled; add ?logdebug=${pkg} to see debug logs`,
+          variant: "default"
+        });
+        return;
+      }
+
       const newLog: LogEntry = {
         id: response.logID,
         timestamp: new Date().toLocaleTimeString(),
         level,
         package: pkg,
         message,
-        status: "success"
+        context,
+        status: "success",
+        attempts: response.attempts
       };
 
       setLogs(prev => [newLog, ...prev].slice(0, 10)); // Keep last 10 logs
       
       toast({
         title: "✅ Log Sent Successfully",
-        description: `${level.toUpperCase()} log sent to server`,
+        description: `${level.toUpperCase()} log sent to server${response.attempts > 1 ? ` after ${response.attempts} attempts` : ""}`,
         variant: "default"
       });
       
     } catch (error) {
+      const queued = error instanceof LogQueuedError;
+      const cause = queued ? error.reason : error;
       const newLog: LogEntry = {
-        id: `error-${Date.now()}`,
+        id: `${queued ? "queued" : "error"}-${Date.now()}`,
         timestamp: new Date().toLocaleTimeString(),
         level,
         package: pkg,
         message,
-        status: "error"
+        context,
+        status: queued ? "queued" : "error",
+        attempts: cause instanceof LoggerError ? cause.attempts : 1
       };
 
       setLogs(prev => [newLog, ...prev].slice(0, 10));
+
+      if (queued) {
+        toast({
+          title: "📥 Log Queued",
+          description: "The server is unreachable; the log will be sent when the connection returns",
+          variant: "default"
+        });
+        return;
+      }
       
       toast({
         title: "❌ Log Failed",
-        description: "Failed to send log to server",
+        description: `Failed to send log to server after ${newLog.attempts} attempt${newLog.attempts === 1 ? "" : "s"}`,
         variant: "destructive"
       });
     } finally {
@@ -124,8 +173,8 @@ export function LoggingDemo({ token }: LoggingDemoProps) {
                 key={index}
                 variant="outline"
                 className="h-auto p-4 flex flex-col items-start gap-2"
-                onClick={() => sendLog(example.level, example.package, example.message)}
-                disabled={!token || isLoading === `${example.level}-${example.package}`}
+                onClick={() => sendLog(example.level, example.package, example.message, example.context)}
+                disabled={!logger || isLoading === `${example.level}-${example.package}`}
               >
                 <div className="flex items-center gap-2 w-full">
                   <span>{getLogLevelIcon(example.level)}</span>
@@ -144,6 +193,25 @@ export function LoggingDemo({ token }: LoggingDemoProps) {
                 )}
               </Button>
             ))}
+            <Button
+              variant="outline"
+              className="h-auto p-4 flex flex-col items-start gap-2"
+              onClick={sendMeasuredRequest}
+              disabled={!logger || isLoading === "request"}
+            >
+              <div className="flex items-center gap-2 w-full">
+                <span>🌐</span>
+                <Badge variant="outline" className="text-xs">
+                  api
+                </Badge>
+              </div>
+              <p className="text-xs text-left text-muted-foreground">
+                Real request: method, URL, status and duration are measured and logged
+              </p>
+              {isLoading === "request" && (
+                <span className="text-xs">Requesting...</span>
+              )}
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -162,7 +230,11 @@ export function LoggingDemo({ token }: LoggingDemoProps) {
                 <div
                   key={log.id}
                   className={`p-3 rounded-lg border ${
-                    log.status === "success" ? "border-success/20 bg-success/5" : "border-destructive/20 bg-destructive/5"
+                    log.status === "success"
+                      ? "border-success/20 bg-success/5"
+                      : log.status === "queued"
+                        ? "border-warning/20 bg-warning/5"
+                        : "border-destructive/20 bg-destructive/5"
                   }`}
                 >
                   <div className="flex items-center justify-between mb-2">
@@ -176,16 +248,26 @@ export function LoggingDemo({ token }: LoggingDemoProps) {
                       </Badge>
                       <span className="text-xs text-muted-foreground">{log.timestamp}</span>
                     </div>
-                    <Badge variant={log.status === "success" ? "default" : "destructive"}>
-                      {log.status === "success" ? "✅ Sent" : "❌ Failed"}
+                    <Badge variant={log.status === "error" ? "destructive" : log.status === "queued" ? "secondary" : "default"}>
+                      {log.status === "success" ? "✅ Sent" : log.status === "queued" ? "📥 Queued" : "❌ Failed"}
                     </Badge>
                   </div>
                   <p className="text-sm">{log.message}</p>
+                  {log.context && (
+                    <pre className="text-xs text-muted-foreground mt-1 whitespace-pre-wrap break-all">
+                      {JSON.stringify(log.context)}
+                    </pre>
+                  )}
                   {log.status === "success" && (
                     <p className="text-xs text-muted-foreground mt-1">
                       Log ID: {log.id}
                     </p>
                   )}
+                  {log.attempts > 1 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Attempts: {log.attempts}
+                    </p>
+                  )}
                 </div>
               ))}
             </div>
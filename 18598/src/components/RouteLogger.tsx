@@ -0,0 +1,46 @@
+import { useEffect, useRef } from "react";
+import { useLocation, useNavigationType } from "react-router-dom";
+import { useLogger } from "@/hooks/use-logger";
+import { deferPageLog, recordNavigation, takePendingPageLogs } from "@/lib/log-navigation";
+import { reportSafely } from "@/lib/logger";
+
+/**
+ * Sends an info "page" log for every navigation, with the previous path and
+ * the time spent there. Mount inside BrowserRouter, before the routes, so a
+ * page's own effects see the navigation already recorded. Page logs made
+ * before sign-in, including the landing page and 404s, are kept in
+ * sessionStorage across reloads and sent once a logger exists.
+ */
+export function RouteLogger() {
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  const logger = useLogger();
+  const path = `${location.pathname}${location.search}`;
+  // Read through a ref so signing in does not report the current page again
+  const loggerRef = useRef(logger);
+  useEffect(() => {
+    loggerRef.current = logger;
+  });
+
+  useEffect(() => {
+    const navigation = recordNavigation(path);
+    if (!navigation) return;
+
+    const message = navigation.timeOnPreviousMs === null
+      ? `Landed on ${navigation.to}`
+      : `Navigated from ${navigation.from} to ${navigation.to} after ${navigation.timeOnPreviousMs}ms`;
+    const context = { ...navigation, navigationType };
+    if (loggerRef.current) {
+      reportSafely(loggerRef.current, "info", "page", message, context);
+    } else {
+      deferPageLog({ level: "info", message, context });
+    }
+  }, [path, navigationType]);
+
+  useEffect(() => {
+    if (!logger) return;
+    takePendingPageLogs().forEach(({ level, message, context }) => reportSafely(logger, level, "page", message, context));
+  }, [logger]);
+
+  return null;
+}
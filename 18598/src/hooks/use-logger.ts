@@ -0,0 +1,42 @@
+import * as React from "react";
+
+import type { AuthCredentials, AuthResponse, FrontendPackage, Logger, PackageLogger } from "@/lib/logger";
+import type { TokenManager } from "@/lib/token-manager";
+
+export interface LoggerContextValue {
+  /** Logger for the signed-in session; null until signIn */
+  logger: Logger | null;
+  /** Token manager keeping the session's bearer token fresh */
+  session: TokenManager | null;
+  isAuthenticated: boolean;
+  /** Start a session from a successful authentication */
+  signIn: (credentials: AuthCredentials, response: AuthResponse) => void;
+  /** Drop the session and dispose its logger */
+  signOut: () => void;
+}
+
+export const LoggerContext = React.createContext<LoggerContextValue | null>(null);
+
+/**
+ * Session state and sign-in/sign-out of the nearest LoggerProvider
+ * @returns Logger context value
+ */
+export function useLoggerSession(): LoggerContextValue {
+  const context = React.useContext(LoggerContext);
+  if (!context) {
+    throw new Error("useLoggerSession must be used inside a LoggerProvider");
+  }
+  return context;
+}
+
+/**
+ * Logger of the current session, optionally bound to a package
+ * @param pkg Package every call is logged under
+ * @returns Logger, or null while nobody is signed in
+ */
+export function useLogger(): Logger | null;
+export function useLogger(pkg: FrontendPackage): PackageLogger | null;
+export function useLogger(pkg?: FrontendPackage): Logger | PackageLogger | null {
+  const { logger } = useLoggerSession();
+  return React.useMemo(() => (logger && pkg ? logger.child({ package: pkg }) : logger), [logger, pkg]);
+}
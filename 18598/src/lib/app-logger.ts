@@ -0,0 +1,24 @@
+/**
+ * App Logger
+ * The current session's logger, for integrations that live above the component that creates it
+ */
+
+import type { LoggerCore } from "./logger-core";
+
+let current: LoggerCore | null = null;
+
+/**
+ * Get the logger of the current session
+ * @returns The registered logger, or null before anyone has authenticated
+ */
+export function getAppLogger(): LoggerCore | null {
+  return current;
+}
+
+/**
+ * Register the logger integrations such as error boundaries should report through
+ * @param logger Logger to register, or null to clear it
+ */
+export function setAppLogger(logger: LoggerCore | null): void {
+  current = logger;
+}
@@ -0,0 +1,90 @@
+/**
+ * Log Batching
+ * Buffers outgoing log requests and flushes them together
+ */
+
+import type { LogRequest, LogResponse } from "./logger";
+
+export interface BatchOptions {
+  /** Flush as soon as this many entries are buffered */
+  maxBatchSize?: number;
+  /** Flush at most this many milliseconds after the first buffered entry */
+  maxWaitMs?: number;
+}
+
+export type BatchSender<R = LogResponse> = (requests: LogRequest[]) => Promise<PromiseSettledResult<R>[]>;
+
+interface PendingEntry<R> {
+  request: LogRequest;
+  resolve: (response: R) => void;
+  reject: (error: unknown) => void;
+}
+
+const DEFAULT_BATCH_OPTIONS: Required<BatchOptions> = {
+  maxBatchSize: 20,
+  maxWaitMs: 2000
+};
+
+/**
+ * Create a buffer that collects log requests and hands them to `send` in batches
+ * @param send Function that delivers a batch and settles one result per request, in order
+ * @param options Size and time limits that trigger a flush
+ * @returns Object with enqueue, flush and size
+ */
+export function createLogBatcher<R = LogResponse>(send: BatchSender<R>, options: BatchOptions = {}) {
+  const { maxBatchSize, maxWaitMs } = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  let pending: PendingEntry<R>[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Send everything buffered now
+   * @param via Alternative sender for this flush only, e.g. one that survives page unload
+   */
+  const flush = async (via: BatchSender<R> = send): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (pending.length === 0) return;
+
+    const batch = pending;
+    pending = [];
+
+    try {
+      const results = await via(batch.map(entry => entry.request));
+      batch.forEach((entry, index) => {
+        const result = results[index];
+        if (!result) {
+          entry.reject(new Error("No response received for batched log entry"));
+        } else if (result.status === "fulfilled") {
+          entry.resolve(result.value);
+        } else {
+          entry.reject(result.reason);
+        }
+      });
+    } catch (error) {
+      batch.forEach(entry => entry.reject(error));
+    }
+  };
+
+  const enqueue = (request: LogRequest): Promise<R> =>
+    new Promise<R>((resolve, reject) => {
+      pending.push({ request, resolve, reject });
+
+      if (pending.length >= maxBatchSize) {
+        void flush();
+      } else if (!timer) {
+        timer = setTimeout(() => void flush(), maxWaitMs);
+      }
+    });
+
+  return {
+    enqueue,
+    flush,
+    get size() {
+      return pending.length;
+    }
+  };
+}
+
+export type LogBatcher<R = LogResponse> = ReturnType<typeof createLogBatcher<R>>;
@@ -0,0 +1,137 @@
+/**
+ * Console Interception
+ * Forwards console output from application and third-party code through a logger
+ */
+
+import type { FrontendPackage, LogLevel } from "./logger";
+import { stableStringify, type LogContext } from "./log-context";
+import { reportSafely, type ChildLogger } from "./logger-core";
+
+export type ConsoleMethod = "debug" | "log" | "info" | "warn" | "error";
+
+export interface ConsoleInterceptOptions {
+  /** Package console output is logged under (default "utils") */
+  package?: FrontendPackage;
+  /** Console methods to intercept (default all of them) */
+  methods?: ConsoleMethod[];
+  /** Level each method maps to; merged over DEFAULT_CONSOLE_LEVELS */
+  levels?: Partial<Record<ConsoleMethod, LogLevel>>;
+}
+
+/** Removes the console patches added by interceptConsole */
+export type RestoreConsole = () => void;
+
+export const DEFAULT_CONSOLE_LEVELS: Record<ConsoleMethod, LogLevel> = {
+  debug: "debug",
+  log: "info",
+  info: "info",
+  warn: "warn",
+  error: "error"
+};
+
+const CONSOLE_METHODS: ConsoleMethod[] = ["debug", "log", "info", "warn", "error"];
+
+// Greater than zero while the logger itself is writing to the console
+let internalDepth = 0;
+
+const writeInternal = (method: ConsoleMethod) => (...args: unknown[]) => {
+  internalDepth++;
+  try {
+    console[method](...args);
+  } finally {
+    internalDepth--;
+  }
+};
+
+/**
+ * Console for the logger's own output ("✅ Log sent…", retry notices, the
+ * console transport). Interception passes these calls straight through.
+ */
+export const loggerConsole: Record<ConsoleMethod, (...args: unknown[]) => void> = {
+  debug: writeInternal("debug"),
+  log: writeInternal("log"),
+  info: writeInternal("info"),
+  warn: writeInternal("warn"),
+  error: writeInternal("error")
+};
+
+function formatArg(arg: unknown): string {
+  if (typeof arg === "string") return arg;
+  if (arg instanceof Error) return `${arg.name}: ${arg.message}`;
+  return stableStringify(arg);
+}
+
+/**
+ * Render console arguments as one message, applying printf-style
+ * substitutions (%s, %d, %i, %f, %o, %O) and dropping %c styles
+ * @param args Arguments passed to the console method
+ * @returns Message text and the stack of the first Error argument
+ */
+function formatConsoleArgs(args: unknown[]): { message: string; context: LogContext } {
+  const rest = [...args];
+  const parts: string[] = [];
+
+  if (typeof rest[0] === "string" && rest[0].includes("%")) {
+    const template = rest.shift() as string;
+    parts.push(
+      template.replace(/%([sdifoOc%])/g, (match, directive: string) => {
+        if (directive === "%") return "%";
+        if (rest.length === 0) return match;
+        const value = rest.shift();
+        if (directive === "c") return "";
+        if (directive === "d" || directive === "i") return String(parseInt(String(value), 10));
+        if (directive === "f") return String(parseFloat(String(value)));
+        return formatArg(value);
+      })
+    );
+  }
+  parts.push(...rest.map(formatArg));
+
+  const error = args.find((arg): arg is Error => arg instanceof Error);
+  return {
+    message: parts.join(" ").trim() || "(empty console message)",
+    context: error ? { errorName: error.name, stack: error.stack } : {}
+  };
+}
+
+/**
+ * Patch console methods so their output is also sent through the logger.
+ * The original method is always called first; the logger's own console
+ * output (written through loggerConsole) is never forwarded.
+ * @param logger Logger that receives console output
+ * @param options Package, methods and level mapping
+ * @returns Function that restores the original console methods
+ */
+export function interceptConsole(logger: Pick<ChildLogger, LogLevel>, options: ConsoleInterceptOptions = {}): RestoreConsole {
+  const pkg = options.package ?? "utils";
+  const levels = { ...DEFAULT_CONSOLE_LEVELS, ...options.levels };
+  const methods = options.methods ?? CONSOLE_METHODS;
+  const originals = new Map<ConsoleMethod, (...args: unknown[]) => void>();
+  let forwarding = false;
+
+  methods.forEach(method => {
+    const original = console[method];
+    originals.set(method, original);
+    console[method] = (...args: unknown[]) => {
+      original.apply(console, args);
+      if (internalDepth > 0 || forwarding) return;
+
+      forwarding = true;
+      try {
+        const { message, context } = formatConsoleArgs(args);
+        reportSafely(logger, levels[method], pkg, message, { ...context, console: method });
+      } catch {
+        // Never let logging break the caller's console call
+      } finally {
+        forwarding = false;
+      }
+    };
+  });
+
+  return () => {
+    originals.forEach((original, method) => {
+      console[method] = original;
+    });
+    originals.clear();
+  };
+}
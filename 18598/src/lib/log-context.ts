@@ -0,0 +1,85 @@
+/**
+ * Log Context
+ * Structured fields attached to log entries and their stable text form
+ */
+
+/** Structured fields attached to a log entry */
+export type LogContext = Record<string, unknown>;
+
+/** Separator between the message and its serialized context */
+export const CONTEXT_SEPARATOR = " | ";
+
+function normalize(value: unknown, seen: WeakSet<object>): unknown {
+  if (value === null || typeof value === "string" || typeof value === "boolean") return value;
+  if (typeof value === "number") return Number.isFinite(value) ? value : String(value);
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "undefined" || typeof value === "function" || typeof value === "symbol") return undefined;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Error) return { name: value.name, message: value.message };
+
+  const object = value as object;
+  if (seen.has(object)) return "[Circular]";
+  seen.add(object);
+
+  let result: unknown;
+  if (Array.isArray(object)) {
+    result = object.map(item => normalize(item, seen) ?? null);
+  } else {
+    const sorted: Record<string, unknown> = {};
+    Object.keys(object)
+      .sort()
+      .forEach(key => {
+        const normalized = normalize((object as Record<string, unknown>)[key], seen);
+        if (normalized !== undefined) {
+          sorted[key] = normalized;
+        }
+      });
+    result = sorted;
+  }
+
+  seen.delete(object);
+  return result;
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted at every level, so the
+ * same context always produces the same text. Dates become ISO strings,
+ * errors keep name and message, and circular references become "[Circular]".
+ * @param value Value to serialize
+ * @returns JSON string
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(normalize(value, new WeakSet())) ?? "null";
+}
+
+/**
+ * Append serialized context to a message: `message | {"key":"value"}`
+ * @param message Log message
+ * @param context Structured fields
+ * @returns Message unchanged when there is no context
+ */
+export function appendContext(message: string, context?: LogContext): string {
+  if (!context || Object.keys(context).length === 0) return message;
+  return `${message}${CONTEXT_SEPARATOR}${stableStringify(context)}`;
+}
+
+/**
+ * Split a message produced by appendContext back into text and context
+ * @param text Message as stored by the server
+ * @returns Message and context (empty when none was attached)
+ */
+export function parseContext(text: string): { message: string; context: LogContext } {
+  let index = text.indexOf(`${CONTEXT_SEPARATOR}{`);
+  while (index !== -1) {
+    try {
+      const context = JSON.parse(text.slice(index + CONTEXT_SEPARATOR.length));
+      if (context && typeof context === "object" && !Array.isArray(context)) {
+        return { message: text.slice(0, index), context };
+      }
+    } catch {
+      // Separator was part of the message itself; try the next one
+    }
+    index = text.indexOf(`${CONTEXT_SEPARATOR}{`, index + 1);
+  }
+  return { message: text, context: {} };
+}
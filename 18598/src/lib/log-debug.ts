@@ -0,0 +1,81 @@
+/**
+ * Debug Namespaces
+ * Turns on debug logging for selected packages from the URL or localStorage
+ */
+
+import type { FrontendPackage } from "./logger";
+import { FRONTEND_PACKAGES } from "./log-levels";
+
+/** Query parameter read on startup, e.g. ?logdebug=auth,api */
+export const DEBUG_QUERY_PARAM = "logdebug";
+/** localStorage key for a pattern that persists across sessions */
+export const DEBUG_STORAGE_KEY = "loggerpro";
+/** sessionStorage key that keeps a URL-provided pattern for the rest of the session */
+const DEBUG_SESSION_KEY = "loggerpro:debug";
+
+function readStorage(storage: () => Storage, key: string): string | null {
+  try {
+    return storage().getItem(key);
+  } catch {
+    // Storage can throw in sandboxed iframes or with cookies disabled
+    return null;
+  }
+}
+
+/**
+ * Read the active debug pattern. A `?logdebug=` parameter wins and is kept
+ * for the rest of the session (an empty value clears it); otherwise the
+ * session value, then `localStorage.loggerpro`, is used.
+ * @returns Pattern string, or null when none is set
+ */
+export function readDebugPattern(): string | null {
+  if (typeof window === "undefined") return null;
+
+  const fromUrl = new URLSearchParams(window.location.search).get(DEBUG_QUERY_PARAM);
+  if (fromUrl !== null) {
+    try {
+      if (fromUrl) {
+        sessionStorage.setItem(DEBUG_SESSION_KEY, fromUrl);
+      } else {
+        sessionStorage.removeItem(DEBUG_SESSION_KEY);
+      }
+    } catch {
+      // Pattern still applies to this page load
+    }
+    return fromUrl || null;
+  }
+
+  return readStorage(() => sessionStorage, DEBUG_SESSION_KEY) ?? readStorage(() => localStorage, DEBUG_STORAGE_KEY);
+}
+
+function toRegExp(namespace: string): RegExp {
+  const escaped = namespace.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*?");
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Resolve a pattern such as "hook,state,-style" or "*,-utils" to packages.
+ * Names are separated by commas or spaces, `*` is a wildcard and a leading `-` excludes.
+ * @param pattern Debug pattern
+ * @returns Packages whose debug logs should be enabled
+ */
+export function matchDebugPackages(pattern: string | null | undefined): FrontendPackage[] {
+  if (!pattern) return [];
+
+  const included: RegExp[] = [];
+  const excluded: RegExp[] = [];
+  pattern
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .forEach(namespace => {
+      if (namespace.startsWith("-")) {
+        excluded.push(toRegExp(namespace.slice(1)));
+      } else {
+        included.push(toRegExp(namespace));
+      }
+    });
+
+  return FRONTEND_PACKAGES.filter(
+    pkg => included.some(regexp => regexp.test(pkg)) && !excluded.some(regexp => regexp.test(pkg))
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Logger Errors
+ * Typed failures raised by the logger and authentication calls
+ */
+
+/**
+ * Base class for every error the logger raises, so callers can tell them
+ * apart from failures in their own code with a single instanceof check
+ */
+export class LoggerError extends Error {
+  /** Attempts made before the error was raised; set by withRetry */
+  attempts = 1;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "LoggerError";
+  }
+}
+
+/**
+ * Error raised when a request never reached the server (offline, DNS, CORS, connection reset)
+ */
+export class NetworkError extends LoggerError {
+  readonly url: string;
+  /** Error fetch rejected with */
+  readonly reason: unknown;
+
+  constructor(url: string, reason: unknown) {
+    const detail = reason instanceof Error ? reason.message : String(reason);
+    super(`Network request to ${url} failed: ${detail}`);
+    this.name = "NetworkError";
+    this.url = url;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error raised when the server did not answer within the request timeout
+ */
+export class TimeoutError extends LoggerError {
+  readonly url: string;
+  readonly timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+    this.name = "TimeoutError";
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error raised for a non-OK HTTP response
+ */
+export class HttpError extends LoggerError {
+  readonly status: number;
+  /** Response body, parsed as JSON when possible */
+  readonly body: unknown;
+  readonly url?: string;
+
+  constructor(status: number, message: string, body?: unknown, url?: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.body = body;
+    this.url = url;
+  }
+
+  /** Message or error text from the response body, when the server sent one */
+  get serverMessage(): string | undefined {
+    if (typeof this.body === "string") return this.body.trim() || undefined;
+    if (this.body && typeof this.body === "object") {
+      const { message, error } = this.body as { message?: unknown; error?: unknown };
+      if (typeof message === "string") return message;
+      if (typeof error === "string") return error;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Error raised when the server refuses the credentials or bearer token (401 or 403)
+ */
+export class AuthRejectedError extends HttpError {
+  constructor(status: number, message: string, body?: unknown, url?: string) {
+    super(status, message, body, url);
+    this.name = "AuthRejectedError";
+  }
+}
+
+/** One problem found while validating a payload */
+export interface ValidationIssue {
+  /** Dotted path to the offending field; empty for the payload itself */
+  path: string;
+  message: string;
+}
+
+/**
+ * Error raised when a payload does not match its schema, either before a
+ * request is sent or when the server answers with an unexpected body
+ */
+export class ValidationError extends LoggerError {
+  /** Name of the schema that rejected the value, e.g. "LogRequest" */
+  readonly schema: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(schema: string, issues: ValidationIssue[]) {
+    const details = issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join("; ");
+    super(`Invalid ${schema}: ${details}`);
+    this.name = "ValidationError";
+    this.schema = schema;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Build the error for a non-OK response, reading its body as JSON or text
+ * @param response Failed response
+ * @param message Error message
+ * @returns AuthRejectedError for 401/403, HttpError otherwise
+ */
+export async function createHttpError(response: Response, message: string): Promise<HttpError> {
+  let body: unknown;
+  try {
+    const text = await response.text();
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = text;
+    }
+  } catch {
+    // Body already consumed or the connection dropped; the status is enough
+  }
+  const ErrorClass = response.status === 401 || response.status === 403 ? AuthRejectedError : HttpError;
+  return new ErrorClass(response.status, message, body, response.url || undefined);
+}
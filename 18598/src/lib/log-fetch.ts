@@ -0,0 +1,136 @@
+/**
+ * Fetch Instrumentation
+ * Logs method, URL, status and duration of every request made with window.fetch
+ */
+
+import type { FrontendPackage, LogLevel } from "./logger";
+import type { LogContext } from "./log-context";
+import { resolveLoggerConfig, type LoggerConfig } from "./logger-config";
+import { reportSafely, type ChildLogger } from "./logger-core";
+
+export interface FetchInstrumentationOptions {
+  /** Package requests are logged under (default "api") */
+  package?: FrontendPackage;
+  /** Requests taking longer than this are logged at warn (default 2000ms) */
+  slowThresholdMs?: number;
+  /** Level for fast, successful requests (default "info") */
+  successLevel?: LogLevel;
+  /** Extra URLs to leave alone: prefixes or patterns matched against the absolute URL */
+  exclude?: (string | RegExp)[];
+  /** Endpoint overrides of the logger, so its own requests are recognised and skipped */
+  config?: Partial<LoggerConfig>;
+}
+
+/** Puts back the fetch that was in place before instrumentFetch */
+export type RestoreFetch = () => void;
+
+// Fetch each instrumented wrapper replaced, so the logger can go around them
+const wrappedFetches = new WeakMap<typeof fetch, typeof fetch>();
+
+/**
+ * fetch() that skips every instrumentFetch wrapper, used by the logger for
+ * its own requests so sending a log can never produce another one
+ * @param input Request URL or object
+ * @param init Request options
+ * @returns The response
+ */
+export function uninstrumentedFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  if (typeof window === "undefined") return fetch(input, init);
+  let target = window.fetch;
+  while (wrappedFetches.has(target)) {
+    target = wrappedFetches.get(target);
+  }
+  return target.call(window, input, init);
+}
+
+function resolveUrl(input: RequestInfo | URL): string {
+  const raw = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+  try {
+    return new URL(raw, window.location.origin).href;
+  } catch {
+    return raw;
+  }
+}
+
+function resolveMethod(input: RequestInfo | URL, init?: RequestInit): string {
+  return (init?.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase();
+}
+
+/**
+ * Wrap window.fetch so every request is logged when it settles: warn for slow
+ * requests and 4xx responses, error for 5xx responses and network failures.
+ * The logger sends its own requests through uninstrumentedFetch, and requests
+ * to its logs and auth endpoints are skipped as well, so sending a log cannot
+ * produce another one even when another fetch wrapper is installed on top.
+ * @param logger Logger that receives the request logs
+ * @param options Package, thresholds and exclusions
+ * @returns Function that restores the original fetch
+ */
+export function instrumentFetch(logger: Pick<ChildLogger, LogLevel>, options: FetchInstrumentationOptions = {}): RestoreFetch {
+  if (typeof window === "undefined" || typeof window.fetch !== "function") return () => {};
+
+  const pkg = options.package ?? "api";
+  const slowThresholdMs = options.slowThresholdMs ?? 2000;
+  const successLevel = options.successLevel ?? "info";
+  const { authEndpoint, logsEndpoint } = resolveLoggerConfig(options.config);
+  const excluded: (string | RegExp)[] = [
+    resolveUrl(logsEndpoint),
+    resolveUrl(authEndpoint),
+    ...(options.exclude ?? [])
+  ];
+
+  const isExcluded = (url: string) =>
+    excluded.some(rule => (typeof rule === "string" ? url.startsWith(rule) : rule.test(url)));
+
+  const report = (level: LogLevel, message: string, context: LogContext) => {
+    reportSafely(logger, level, pkg, message, context);
+  };
+
+  const original = window.fetch;
+
+  const instrumented: typeof window.fetch = async (input, init) => {
+    const url = resolveUrl(input);
+    if (isExcluded(url)) return original.call(window, input, init);
+
+    const method = resolveMethod(input, init);
+    const startedAt = performance.now();
+    let response: Response;
+    try {
+      response = await original.call(window, input, init);
+    } catch (error) {
+      const durationMs = Math.round(performance.now() - startedAt);
+      const aborted = error instanceof DOMException && error.name === "AbortError";
+      report(aborted ? "info" : "error", `${method} ${url} ${aborted ? "aborted" : "failed"} after ${durationMs}ms`, {
+        method,
+        url,
+        durationMs,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+
+    const durationMs = Math.round(performance.now() - startedAt);
+    const context: LogContext = { method, url, status: response.status, durationMs };
+    const summary = `${method} ${url} → ${response.status} (${durationMs}ms)`;
+    if (response.status >= 500) {
+      report("error", summary, context);
+    } else if (response.status >= 400) {
+      report("warn", summary, context);
+    } else if (durationMs > slowThresholdMs) {
+      report("warn", `API response time exceeded ${slowThresholdMs}ms: ${summary}`, context);
+    } else {
+      report(successLevel, summary, context);
+    }
+    return response;
+  };
+
+  wrappedFetches.set(instrumented, original);
+  window.fetch = instrumented;
+
+  return () => {
+    // Leave a fetch patched on top of ours in place
+    if (window.fetch === instrumented) {
+      window.fetch = original;
+    }
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Global Error Handlers
+ * Reports uncaught errors and unhandled promise rejections through a logger
+ */
+
+import type { FrontendPackage, LogLevel } from "./logger";
+import type { LogContext } from "./log-context";
+import { reportSafely, type ChildLogger } from "./logger-core";
+
+export interface GlobalHandlerOptions {
+  /** Package the reports are logged under (default "utils") */
+  package?: FrontendPackage;
+  /** Level for uncaught errors (default "fatal") */
+  errorLevel?: LogLevel;
+  /** Level for unhandled promise rejections (default "error") */
+  rejectionLevel?: LogLevel;
+  /** Reports allowed per minute; further crashes are dropped until the window passes (default 10) */
+  maxPerMinute?: number;
+}
+
+/** Removes the listeners added by installGlobalHandlers */
+export type UninstallGlobalHandlers = () => void;
+
+/** Logger surface the handlers need; any logger or child logger fits */
+type GlobalHandlerLogger = Pick<ChildLogger, LogLevel>;
+
+const MINUTE_MS = 60000;
+
+function describeReason(reason: unknown): { message: string; context: LogContext } {
+  if (reason instanceof Error) {
+    return { message: `${reason.name}: ${reason.message}`, context: { errorName: reason.name, stack: reason.stack } };
+  }
+  if (typeof reason === "string") {
+    return { message: reason, context: {} };
+  }
+  return { message: String(reason), context: { reason } };
+}
+
+/**
+ * Log uncaught errors and unhandled promise rejections. Reports are guarded
+ * against loops: errors raised while a report is being made are ignored,
+ * failed log calls are swallowed instead of becoming new rejections, and the
+ * number of reports per minute is capped.
+ * @param logger Logger that receives the reports
+ * @param options Package, levels and rate cap
+ * @returns Function that removes the handlers
+ */
+export function installGlobalHandlers(
+  logger: GlobalHandlerLogger,
+  options: GlobalHandlerOptions = {}
+): UninstallGlobalHandlers {
+  if (typeof window === "undefined") return () => {};
+
+  const pkg = options.package ?? "utils";
+  const maxPerMinute = options.maxPerMinute ?? 10;
+  let reporting = false;
+  let windowStart = 0;
+  let reportsInWindow = 0;
+  let droppedInWindow = 0;
+
+  const report = (level: LogLevel, message: string, context: LogContext) => {
+    if (reporting) return;
+
+    const now = Date.now();
+    if (now - windowStart >= MINUTE_MS) {
+      if (droppedInWindow > 0) {
+        context = { ...context, droppedReports: droppedInWindow };
+      }
+      windowStart = now;
+      reportsInWindow = 0;
+      droppedInWindow = 0;
+    }
+    if (reportsInWindow >= maxPerMinute) {
+      droppedInWindow++;
+      return;
+    }
+    reportsInWindow++;
+
+    reporting = true;
+    try {
+      reportSafely(logger, level, pkg, message, { ...context, url: window.location.href });
+    } catch {
+      // A logger that throws synchronously must not take the handler down with it
+    } finally {
+      reporting = false;
+    }
+  };
+
+  const onError = (event: ErrorEvent) => {
+    // Cross-origin scripts report only "Script error." with no error object
+    const { message, context } = event.error != null
+      ? describeReason(event.error)
+      : { message: event.message, context: {} };
+    report(options.errorLevel ?? "fatal", `Uncaught ${message || "error"}`, {
+      ...context,
+      source: event.filename || undefined,
+      line: event.lineno || undefined,
+      column: event.colno || undefined
+    });
+  };
+
+  const onRejection = (event: PromiseRejectionEvent) => {
+    const { message, context } = describeReason(event.reason);
+    report(options.rejectionLevel ?? "error", `Unhandled promise rejection: ${message}`, context);
+  };
+
+  window.addEventListener("error", onError);
+  window.addEventListener("unhandledrejection", onRejection);
+
+  return () => {
+    window.removeEventListener("error", onError);
+    window.removeEventListener("unhandledrejection", onRejection);
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Log Levels
+ * Ordering and comparison helpers for LogLevel, and the list of FrontendPackage values
+ */
+
+import type { FrontendPackage, LogLevel } from "./logger";
+
+/** All levels, from most to least verbose */
+export const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error", "fatal"];
+
+/** All packages accepted by the evaluation service */
+export const FRONTEND_PACKAGES: readonly FrontendPackage[] = [
+  "api",
+  "component",
+  "hook",
+  "page",
+  "state",
+  "style",
+  "auth",
+  "config",
+  "middleware",
+  "utils"
+];
+
+/**
+ * Check whether a level passes a minimum threshold
+ * @param level Level of the entry
+ * @param threshold Minimum level that should be let through
+ * @returns True when the entry is at or above the threshold
+ */
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(threshold);
+}
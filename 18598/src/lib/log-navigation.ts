@@ -0,0 +1,98 @@
+/**
+ * Navigation Tracking
+ * Remembers in-app navigations so page logs can report where the user came from
+ */
+
+import type { LogLevel } from "./logger";
+import type { LogContext } from "./log-context";
+
+export interface NavigationRecord {
+  /** Previous in-app path, or the document referrer on the first page */
+  from: string | null;
+  to: string;
+  /** Time spent on the previous in-app page; null on the first page */
+  timeOnPreviousMs: number | null;
+}
+
+/** Page log made before sign-in, kept until a logger can send it */
+export interface PendingPageLog {
+  level: LogLevel;
+  message: string;
+  context: LogContext;
+}
+
+// sessionStorage, so page logs survive the full page loads that happen before sign-in
+const PENDING_STORAGE_KEY = "loggerpro:pending-page-logs";
+// Oldest entries are dropped beyond this, so an anonymous visit cannot fill the storage
+const MAX_PENDING_PAGE_LOGS = 50;
+
+let current: { path: string; enteredAt: number } | null = null;
+let previousPath: string | null = null;
+
+/**
+ * Record that the app now shows a new path
+ * @param path Path including search, e.g. "/orders?page=2"
+ * @returns The navigation, or null when the path did not change
+ */
+export function recordNavigation(path: string): NavigationRecord | null {
+  if (current?.path === path) return null;
+
+  const now = performance.now();
+  const record: NavigationRecord = {
+    from: current?.path ?? (document.referrer || null),
+    to: path,
+    timeOnPreviousMs: current ? Math.round(now - current.enteredAt) : null
+  };
+  previousPath = current?.path ?? null;
+  current = { path, enteredAt: now };
+  return record;
+}
+
+/**
+ * Where the user came from: the previous in-app path, or the document
+ * referrer when the current page is the first one
+ * @returns Referrer, or null when unknown
+ */
+export function getNavigationReferrer(): string | null {
+  return previousPath ?? (document.referrer || null);
+}
+
+function readPendingPageLogs(): PendingPageLog[] {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(PENDING_STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    // Storage unavailable or corrupted: nothing to send
+    return [];
+  }
+}
+
+/**
+ * Keep a page log until somebody signs in; the time it happened is added to its context
+ * @param log Level, message and context of the log
+ */
+export function deferPageLog(log: PendingPageLog): void {
+  const pending = [
+    ...readPendingPageLogs(),
+    { ...log, context: { ...log.context, occurredAt: new Date().toISOString() } }
+  ].slice(-MAX_PENDING_PAGE_LOGS);
+  try {
+    sessionStorage.setItem(PENDING_STORAGE_KEY, JSON.stringify(pending));
+  } catch {
+    // Storage unavailable or full: the log is dropped
+  }
+}
+
+/**
+ * Remove and return the page logs deferred so far in this tab
+ * @returns Pending logs, oldest first
+ */
+export function takePendingPageLogs(): PendingPageLog[] {
+  const pending = readPendingPageLogs();
+  try {
+    sessionStorage.removeItem(PENDING_STORAGE_KEY);
+  } catch {
+    // Nothing was stored
+  }
+  return pending;
+}
@@ -0,0 +1,101 @@
+/**
+ * Query Logging
+ * TanStack Query caches that report failed and slow queries and mutations
+ */
+
+import { MutationCache, QueryCache, type Mutation, type Query } from "@tanstack/react-query";
+import { getAppLogger } from "./app-logger";
+import type { FrontendPackage, LogLevel } from "./logger";
+import { stableStringify, type LogContext } from "./log-context";
+import { reportSafely, type ChildLogger } from "./logger-core";
+
+export interface QueryLoggingOptions {
+  /** Logger to report through; defaults to the current session's logger at the time of each report */
+  logger?: Pick<ChildLogger, LogLevel>;
+  /** Package for query logs (default "api") */
+  queryPackage?: FrontendPackage;
+  /** Package for mutation logs (default "state") */
+  mutationPackage?: FrontendPackage;
+  /** Queries and mutations taking longer than this are logged at warn (default 2000ms) */
+  slowThresholdMs?: number;
+}
+
+/**
+ * Create a QueryCache and MutationCache that log every failure at error
+ * level, with the key and failure count, and every success slower than the
+ * threshold at warn level. Pass the result to new QueryClient({...}).
+ * @param options Logger, packages and slow threshold
+ * @returns Caches for the QueryClient config
+ */
+export function createLoggedQueryCaches(options: QueryLoggingOptions = {}) {
+  const queryPackage = options.queryPackage ?? "api";
+  const mutationPackage = options.mutationPackage ?? "state";
+  const slowThresholdMs = options.slowThresholdMs ?? 2000;
+  // When each query's current fetch started, by query hash
+  const fetchStartedAt = new Map<string, number>();
+
+  const report = (level: LogLevel, pkg: FrontendPackage, message: string, context: LogContext) => {
+    const logger = options.logger ?? getAppLogger();
+    if (logger) reportSafely(logger, level, pkg, message, context);
+  };
+
+  const queryDuration = (query: Query<unknown, unknown, unknown>) => {
+    const startedAt = fetchStartedAt.get(query.queryHash);
+    fetchStartedAt.delete(query.queryHash);
+    return startedAt === undefined ? undefined : Math.round(Date.now() - startedAt);
+  };
+
+  const mutationName = (mutation: Mutation<unknown, unknown, unknown>) =>
+    mutation.options.mutationKey ? stableStringify(mutation.options.mutationKey) : `#${mutation.mutationId}`;
+
+  const queryCache = new QueryCache({
+    onError: (error, query) => {
+      const key = stableStringify(query.queryKey);
+      report("error", queryPackage, `Query ${key} failed: ${error.message}`, {
+        queryKey: query.queryKey,
+        failureCount: query.state.fetchFailureCount,
+        durationMs: queryDuration(query),
+        error
+      });
+    },
+    onSuccess: (_data, query) => {
+      const durationMs = queryDuration(query);
+      if (durationMs === undefined || durationMs <= slowThresholdMs) return;
+      report("warn", queryPackage, `Slow query ${stableStringify(query.queryKey)} took ${durationMs}ms`, {
+        queryKey: query.queryKey,
+        durationMs,
+        thresholdMs: slowThresholdMs
+      });
+    }
+  });
+
+  queryCache.subscribe(event => {
+    if (event.type === "updated" && event.action.type === "fetch") {
+      fetchStartedAt.set(event.query.queryHash, Date.now());
+    } else if (event.type === "removed") {
+      fetchStartedAt.delete(event.query.queryHash);
+    }
+  });
+
+  const mutationCache = new MutationCache({
+    onError: (error, _variables, _context, mutation) => {
+      report("error", mutationPackage, `Mutation ${mutationName(mutation)} failed: ${error.message}`, {
+        mutationKey: mutation.options.mutationKey,
+        failureCount: mutation.state.failureCount,
+        durationMs: mutation.state.submittedAt ? Date.now() - mutation.state.submittedAt : undefined,
+        error
+      });
+    },
+    onSuccess: (_data, _variables, _context, mutation) => {
+      const durationMs = mutation.state.submittedAt ? Date.now() - mutation.state.submittedAt : 0;
+      if (durationMs <= slowThresholdMs) return;
+      report("warn", mutationPackage, `Slow mutation ${mutationName(mutation)} took ${durationMs}ms`, {
+        mutationKey: mutation.options.mutationKey,
+        durationMs,
+        thresholdMs: slowThresholdMs
+      });
+    }
+  });
+
+  return { queryCache, mutationCache };
+}
@@ -0,0 +1,181 @@
+/**
+ * Log Redaction
+ * Strips personal data and secrets from messages and context before they leave the logger
+ */
+
+import type { LogContext } from "./log-context";
+
+/** Rule that replaces every match of a pattern (the pattern must use the g flag) */
+export interface PatternRedactionRule {
+  name: string;
+  pattern: RegExp;
+  /** Replacement text; defaults to [REDACTED:<name>] */
+  replacement?: string;
+}
+
+/** Rule that rewrites text itself and reports how many values it replaced */
+export interface FunctionRedactionRule {
+  name: string;
+  redact: (text: string) => { text: string; count: number };
+}
+
+export type RedactionRule = PatternRedactionRule | FunctionRedactionRule;
+
+export interface RedactionOptions {
+  /** Extra rules applied after the built-in ones */
+  rules?: RedactionRule[];
+  /** Context keys whose values are always replaced, in addition to the credential fields */
+  keys?: string[];
+  /** Apply the built-in detectors (default true) */
+  builtins?: boolean;
+}
+
+export interface RedactionResult<T> {
+  value: T;
+  count: number;
+}
+
+/** Credential fields from AuthCredentials/AuthResponse plus common secret names */
+export const SENSITIVE_KEYS: readonly string[] = [
+  "clientSecret",
+  "client_secret",
+  "accessCode",
+  "access_code",
+  "access_token",
+  "accessToken",
+  "refresh_token",
+  "password",
+  "authorization",
+  "token"
+];
+
+const REDACTED = "[REDACTED]";
+// Stands in for a reference back to an enclosing object, which cannot be copied
+const CIRCULAR = "[Circular]";
+
+/**
+ * Luhn checksum, to avoid redacting arbitrary long numbers as card numbers
+ * @param digits Digits only
+ * @returns True when the checksum is valid
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const credentialFieldPattern = (keys: readonly string[]) =>
+  new RegExp(`(["']?)\\b(${keys.map(key => key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})\\1(\\s*[:=]\\s*)("[^"]*"|'[^']*'|(?:Bearer\\s+)?[^\\s,&}]+)`, "gi");
+
+function builtinRules(keys: readonly string[]): RedactionRule[] {
+  return [
+    {
+      name: "credential",
+      redact: (text) => {
+        let count = 0;
+        const result = text.replace(credentialFieldPattern(keys), (_, quote, key, separator, value: string) => {
+          count++;
+          const valueQuote = value.startsWith('"') || value.startsWith("'") ? value[0] : "";
+          return `${quote}${key}${quote}${separator}${valueQuote}${REDACTED}${valueQuote}`;
+        });
+        return { text: result, count };
+      }
+    },
+    { name: "bearer", pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi, replacement: "Bearer [REDACTED:token]" },
+    { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g },
+    { name: "email", pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+    {
+      name: "card",
+      redact: (text) => {
+        let count = 0;
+        const result = text.replace(/\b\d(?:[ -]?\d){12,18}\b/g, (match) => {
+          if (!passesLuhn(match.replace(/\D/g, ""))) return match;
+          count++;
+          return "[REDACTED:card]";
+        });
+        return { text: result, count };
+      }
+    }
+  ];
+}
+
+function applyRule(rule: RedactionRule, text: string): { text: string; count: number } {
+  if ("redact" in rule) {
+    return rule.redact(text);
+  }
+  let count = 0;
+  const result = text.replace(rule.pattern, () => {
+    count++;
+    return rule.replacement ?? `[REDACTED:${rule.name}]`;
+  });
+  return { text: result, count };
+}
+
+/**
+ * Create a redactor for messages and context objects
+ * @param options Extra rules and keys, and whether to use the built-in detectors
+ * @returns Object with redactText and redactContext
+ */
+export function createRedactor(options: RedactionOptions = {}) {
+  const keys = [...SENSITIVE_KEYS, ...(options.keys ?? [])];
+  const sensitiveKeys = new Set(keys.map(key => key.toLowerCase()));
+  const rules = [...(options.builtins === false ? [] : builtinRules(keys)), ...(options.rules ?? [])];
+
+  const redactText = (text: string): RedactionResult<string> =>
+    rules.reduce<RedactionResult<string>>(
+      (current, rule) => {
+        const next = applyRule(rule, current.value);
+        return { value: next.text, count: current.count + next.count };
+      },
+      { value: text, count: 0 }
+    );
+
+  const redactValue = (value: unknown, seen: WeakSet<object>): RedactionResult<unknown> => {
+    if (typeof value === "string") return redactText(value);
+    if (!value || typeof value !== "object" || value instanceof Date) return { value, count: 0 };
+    if (seen.has(value)) return { value: CIRCULAR, count: 0 };
+    seen.add(value);
+
+    let count = 0;
+    let result: unknown;
+    if (Array.isArray(value)) {
+      result = value.map(item => {
+        const redacted = redactValue(item, seen);
+        count += redacted.count;
+        return redacted.value;
+      });
+    } else if (value instanceof Error) {
+      const redacted = redactText(value.message);
+      count += redacted.count;
+      result = { name: value.name, message: redacted.value };
+    } else {
+      const copy: Record<string, unknown> = {};
+      Object.entries(value).forEach(([key, item]) => {
+        if (sensitiveKeys.has(key.toLowerCase()) && item !== undefined && item !== null && item !== "") {
+          copy[key] = REDACTED;
+          count++;
+          return;
+        }
+        const redacted = redactValue(item, seen);
+        count += redacted.count;
+        copy[key] = redacted.value;
+      });
+      result = copy;
+    }
+
+    seen.delete(value);
+    return { value: result, count };
+  };
+
+  const redactContext = (context: LogContext): RedactionResult<LogContext> =>
+    redactValue(context, new WeakSet()) as RedactionResult<LogContext>;
+
+  return { redactText, redactContext };
+}
@@ -0,0 +1,59 @@
+/**
+ * Log Sampling
+ * Probabilistic sampling of log entries by level and package
+ */
+
+import type { FrontendPackage, LogLevel } from "./logger";
+import { getSessionId } from "./log-session";
+
+export interface SamplingOptions {
+  /** Fraction (0-1) of entries kept per level; unlisted levels, error and fatal are always kept */
+  levels?: Partial<Record<LogLevel, number>>;
+  /** Fraction (0-1) of entries kept per package; takes precedence over the level rate */
+  packages?: Partial<Record<FrontendPackage, number>>;
+  /**
+   * Roll once per session instead of once per entry (default true), so a
+   * session's trace is kept or dropped as a whole at any given rate
+   */
+  deterministic?: boolean;
+}
+
+/** Levels that are never sampled out, whatever the configuration says */
+const ALWAYS_KEPT: readonly LogLevel[] = ["error", "fatal"];
+
+/**
+ * Map a string to a stable number in [0, 1) using FNV-1a
+ * @param value Input string
+ * @returns Pseudo-random fraction
+ */
+function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Create a sampler for the given configuration
+ * @param options Level and package rates
+ * @returns Object with rateFor and shouldKeep
+ */
+export function createSampler(options: SamplingOptions = {}) {
+  const sessionRoll = options.deterministic === false ? null : hashToUnit(getSessionId());
+
+  const rateFor = (level: LogLevel, pkg: FrontendPackage): number => {
+    if (ALWAYS_KEPT.includes(level)) return 1;
+    const rate = options.packages?.[pkg] ?? options.levels?.[level] ?? 1;
+    return Math.min(Math.max(rate, 0), 1);
+  };
+
+  const shouldKeep = (rate: number): boolean => {
+    if (rate >= 1) return true;
+    if (rate <= 0) return false;
+    return (sessionRoll ?? Math.random()) < rate;
+  };
+
+  return { rateFor, shouldKeep };
+}
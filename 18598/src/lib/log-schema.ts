@@ -0,0 +1,61 @@
+/**
+ * Log Schemas
+ * Runtime validation of the payloads exchanged with the evaluation service
+ */
+
+import { z } from "zod";
+import type { AuthCredentials, AuthResponse, FrontendPackage, LogLevel, LogRequest, LogResponse } from "./logger";
+import { ValidationError } from "./log-errors";
+import { FRONTEND_PACKAGES, LOG_LEVELS } from "./log-levels";
+
+export const logLevelSchema = z.enum(LOG_LEVELS as [LogLevel, ...LogLevel[]]);
+
+export const frontendPackageSchema = z.enum(FRONTEND_PACKAGES as [FrontendPackage, ...FrontendPackage[]]);
+
+// Without strictNullChecks zod infers every field as optional, so the object
+// schemas are pinned to the interfaces they validate
+export const logRequestSchema = z.object({
+  stack: z.literal("frontend"),
+  level: logLevelSchema,
+  package: frontendPackageSchema,
+  message: z.string()
+}) as z.ZodType<LogRequest>;
+
+export const logResponseSchema = z.object({
+  logID: z.string().min(1),
+  message: z.string()
+}) as z.ZodType<LogResponse>;
+
+export const authCredentialsSchema = z.object({
+  email: z.string().email(),
+  name: z.string().min(1),
+  rollNo: z.string().min(1),
+  accessCode: z.string().min(1),
+  clientID: z.string().min(1),
+  clientSecret: z.string().min(1)
+}) as z.ZodType<AuthCredentials>;
+
+export const authResponseSchema = z.object({
+  token_type: z.literal("Bearer"),
+  access_token: z.string().min(1),
+  expires_in: z.number().positive()
+}) as z.ZodType<AuthResponse>;
+
+/**
+ * Validate a value against a schema
+ * @param schema Zod schema
+ * @param name Schema name used in the error message
+ * @param value Value to check
+ * @returns The parsed value, without unknown keys
+ * @throws ValidationError listing every field that failed
+ */
+export function parseSchema<T>(schema: z.ZodType<T>, name: string, value: unknown): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ValidationError(
+      name,
+      result.error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message }))
+    );
+  }
+  return result.data;
+}
@@ -0,0 +1,40 @@
+/**
+ * Log Session
+ * Per-tab session identifier shared by every logger on the page
+ */
+
+const SESSION_STORAGE_KEY = "loggerpro:session";
+
+let sessionId: string | null = null;
+
+/**
+ * Generate a random lowercase hex string
+ * @param bytes Number of random bytes
+ * @returns Hex string twice as long as `bytes`
+ */
+export function randomHex(bytes: number): string {
+  const buffer = new Uint8Array(bytes);
+  crypto.getRandomValues(buffer);
+  return Array.from(buffer, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Get the id of the current browser session. It is kept in sessionStorage,
+ * so it survives reloads but not a new tab.
+ * @returns Session id (32 hex characters)
+ */
+export function getSessionId(): string {
+  if (sessionId) return sessionId;
+
+  try {
+    sessionId = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!sessionId) {
+      sessionId = randomHex(16);
+      sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+    }
+  } catch {
+    // Storage unavailable: the id lasts for this page load only
+    sessionId = sessionId ?? randomHex(16);
+  }
+  return sessionId;
+}
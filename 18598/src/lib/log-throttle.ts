@@ -0,0 +1,156 @@
+/**
+ * Log Throttling
+ * Collapses repeated messages and rate-limits noisy packages
+ */
+
+import type { FrontendPackage, LogLevel } from "./logger";
+
+export interface RateLimitOptions {
+  /** Entries a package may send in a burst */
+  capacity: number;
+  /** Entries per second added back to each package's bucket */
+  refillPerSecond: number;
+}
+
+export interface ThrottleOptions {
+  /** Window in which identical level+package+message entries collapse into one (0 disables) */
+  dedupeWindowMs?: number;
+  /** Token bucket per package, or false to disable */
+  rateLimit?: RateLimitOptions | false;
+  /** How often a summary of rate-limited entries is logged */
+  summaryIntervalMs?: number;
+}
+
+/** Entry the throttle emits on its own: collapsed repeats and suppression summaries */
+export interface ThrottleReport {
+  level: LogLevel;
+  package: FrontendPackage;
+  message: string;
+  occurrences?: number;
+}
+
+const DEFAULT_THROTTLE_OPTIONS: Required<ThrottleOptions> = {
+  dedupeWindowMs: 5000,
+  rateLimit: { capacity: 20, refillPerSecond: 5 },
+  summaryIntervalMs: 30000
+};
+
+interface DedupeSlot {
+  level: LogLevel;
+  package: FrontendPackage;
+  message: string;
+  repeats: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Create a throttle that decides which log calls go out
+ * @param options Dedupe window, rate limit and summary interval
+ * @param report Receives collapsed-repeat entries and suppression summaries
+ * @returns Object with admit, flush and dispose
+ */
+export function createThrottle(options: ThrottleOptions, report: (entry: ThrottleReport) => void) {
+  const { dedupeWindowMs, rateLimit, summaryIntervalMs } = { ...DEFAULT_THROTTLE_OPTIONS, ...options };
+  const slots = new Map<string, DedupeSlot>();
+  const buckets = new Map<FrontendPackage, Bucket>();
+  const suppressed = new Map<FrontendPackage, number>();
+  let summaryTimer: ReturnType<typeof setInterval> | null = null;
+
+  const closeSlot = (key: string) => {
+    const slot = slots.get(key);
+    if (!slot) return;
+    clearTimeout(slot.timer);
+    slots.delete(key);
+    if (slot.repeats > 0) {
+      report({
+        level: slot.level,
+        package: slot.package,
+        message: slot.message,
+        occurrences: slot.repeats
+      });
+    }
+  };
+
+  const reportSuppressed = () => {
+    if (suppressed.size === 0) return;
+    const total = [...suppressed.values()].reduce((sum, count) => sum + count, 0);
+    const breakdown = [...suppressed].map(([pkg, count]) => `${pkg}: ${count}`).join(", ");
+    suppressed.clear();
+    report({
+      level: "warn",
+      package: "middleware",
+      message: `${total} messages suppressed by rate limit (${breakdown})`
+    });
+  };
+
+  const takeToken = (pkg: FrontendPackage): boolean => {
+    if (!rateLimit) return true;
+    const now = Date.now();
+    const bucket = buckets.get(pkg) ?? { tokens: rateLimit.capacity, updatedAt: now };
+    bucket.tokens = Math.min(
+      rateLimit.capacity,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * rateLimit.refillPerSecond
+    );
+    bucket.updatedAt = now;
+    buckets.set(pkg, bucket);
+
+    if (bucket.tokens < 1) return false;
+    bucket.tokens -= 1;
+    return true;
+  };
+
+  /**
+   * Decide whether a log call should be sent
+   * @returns True to send it; false when it was counted as a repeat or rate-limited
+   */
+  const admit = (level: LogLevel, pkg: FrontendPackage, message: string): boolean => {
+    const key = `${level}\u0000${pkg}\u0000${message}`;
+    const slot = dedupeWindowMs > 0 ? slots.get(key) : undefined;
+    if (slot) {
+      slot.repeats++;
+      return false;
+    }
+
+    // Rejected calls open no slot, so their repeats are rate-limited and counted here too
+    if (!takeToken(pkg)) {
+      suppressed.set(pkg, (suppressed.get(pkg) ?? 0) + 1);
+      summaryTimer = summaryTimer ?? setInterval(reportSuppressed, summaryIntervalMs);
+      return false;
+    }
+
+    if (dedupeWindowMs > 0) {
+      slots.set(key, {
+        level,
+        package: pkg,
+        message,
+        repeats: 0,
+        timer: setTimeout(() => closeSlot(key), dedupeWindowMs)
+      });
+    }
+    return true;
+  };
+
+  /** Report every pending repeat count and suppression total now */
+  const flush = () => {
+    [...slots.keys()].forEach(closeSlot);
+    reportSuppressed();
+  };
+
+  return {
+    admit,
+    flush,
+    dispose: () => {
+      slots.forEach(slot => clearTimeout(slot.timer));
+      slots.clear();
+      if (summaryTimer) {
+        clearInterval(summaryTimer);
+        summaryTimer = null;
+      }
+    }
+  };
+}
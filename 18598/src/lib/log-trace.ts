@@ -0,0 +1,87 @@
+/**
+ * Log Tracing
+ * W3C trace context for correlating frontend logs with backend requests
+ */
+
+import { randomHex } from "./log-session";
+
+export interface TraceContext {
+  /** 32 hex characters shared by every span of one operation */
+  traceId: string;
+  /** 16 hex characters identifying this step of the operation */
+  spanId: string;
+  /** Span this one was started from, if any */
+  parentSpanId?: string;
+}
+
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+function generateId(bytes: number, invalid: string): string {
+  let id = randomHex(bytes);
+  // All-zero ids are reserved as invalid by the spec
+  while (id === invalid) {
+    id = randomHex(bytes);
+  }
+  return id;
+}
+
+/**
+ * Start a new trace with a root span
+ * @returns Fresh trace context
+ */
+export function startTrace(): TraceContext {
+  return {
+    traceId: generateId(16, INVALID_TRACE_ID),
+    spanId: generateId(8, INVALID_SPAN_ID)
+  };
+}
+
+/**
+ * Start a child span within an existing trace
+ * @param parent Trace the span belongs to; a new trace is started when omitted
+ * @returns Trace context for the child span
+ */
+export function startSpan(parent?: TraceContext): TraceContext {
+  if (!parent) return startTrace();
+  return {
+    traceId: parent.traceId,
+    spanId: generateId(8, INVALID_SPAN_ID),
+    parentSpanId: parent.spanId
+  };
+}
+
+/**
+ * Format a trace context as a W3C `traceparent` header value
+ * @param trace Trace context
+ * @returns Header value, e.g. 00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01
+ */
+export function formatTraceparent(trace: TraceContext): string {
+  return `00-${trace.traceId}-${trace.spanId}-01`;
+}
+
+/**
+ * Add a `traceparent` header to fetch options so the backend can join the
+ * request to the same trace. Existing headers are preserved.
+ * @param init Fetch options
+ * @param trace Trace context; a new trace is started when omitted
+ * @returns New fetch options with the header set
+ */
+export function withTraceparent(init: RequestInit = {}, trace: TraceContext = startTrace()): RequestInit {
+  const headers = new Headers(init.headers);
+  headers.set("traceparent", formatTraceparent(trace));
+  return { ...init, headers };
+}
+
+/**
+ * fetch() with a `traceparent` header for the given trace
+ * @param trace Trace context
+ * @param input Request URL or object
+ * @param init Fetch options
+ * @returns Fetch response promise
+ */
+export function tracedFetch(trace: TraceContext, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  // Headers in init replace those of a Request object, so start from the Request's own
+  const headers = init?.headers ?? (input instanceof Request ? input.headers : undefined);
+  return fetch(input, withTraceparent({ ...init, headers }, trace));
+}
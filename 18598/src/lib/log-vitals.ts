@@ -0,0 +1,225 @@
+/**
+ * Web Vitals
+ * Reports LCP, CLS, INP, FCP, TTFB, long tasks and navigation timing through a logger
+ */
+
+import type { FrontendPackage, LogLevel } from "./logger";
+import type { LogContext } from "./log-context";
+import { reportSafely, type ChildLogger, type LoggerCore } from "./logger-core";
+
+export type WebVitalName = "LCP" | "CLS" | "INP" | "FCP" | "TTFB";
+
+/** Values above which a metric is logged at warn level; CLS is unitless, the rest are milliseconds */
+export type PoorThresholds = Record<WebVitalName | "longTask", number>;
+
+export interface WebVitalsOptions {
+  /** Overrides for the "poor" thresholds */
+  thresholds?: Partial<PoorThresholds>;
+  /** Level for values within their threshold (default "info") */
+  level?: LogLevel;
+}
+
+/** Stops observing; metrics not reported yet are dropped */
+export type StopWebVitals = () => void;
+
+/** "Poor" boundaries published by web.dev, plus 200ms for a single long task */
+export const DEFAULT_POOR_THRESHOLDS: PoorThresholds = {
+  LCP: 4000,
+  CLS: 0.25,
+  INP: 500,
+  FCP: 3000,
+  TTFB: 1800,
+  longTask: 200
+};
+
+// Layout shifts are grouped into session windows: shifts less than 1s apart, at most 5s long
+const CLS_SESSION_GAP_MS = 1000;
+const CLS_SESSION_MAX_MS = 5000;
+
+// Entry shapes the DOM typings do not include
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+interface EventTimingEntry extends PerformanceEntry {
+  interactionId?: number;
+}
+
+function isSupported(type: string): boolean {
+  return typeof PerformanceObserver !== "undefined" && PerformanceObserver.supportedEntryTypes?.includes(type);
+}
+
+/**
+ * Observe Core Web Vitals and page timing and log them: layout shift under
+ * "style", everything else under "page". A value above its poor threshold is
+ * logged at warn. FCP, TTFB, navigation timing and long tasks are reported
+ * as they become known; LCP, CLS and INP keep changing while the page is in
+ * use, so they are reported once when the page is first hidden and flushed
+ * with requests that outlive the page.
+ * Buffered entries are read, so this can be installed after the page loaded.
+ * @param logger Logger that receives the reports
+ * @param options Thresholds and level for good values
+ * @returns Function that stops observing
+ */
+export function observeWebVitals(
+  logger: Pick<ChildLogger, LogLevel> & Partial<Pick<LoggerCore, "flush">>,
+  options: WebVitalsOptions = {}
+): StopWebVitals {
+  if (typeof window === "undefined" || typeof PerformanceObserver === "undefined") return () => {};
+
+  const thresholds = { ...DEFAULT_POOR_THRESHOLDS, ...options.thresholds };
+  const goodLevel = options.level ?? "info";
+  const observers: PerformanceObserver[] = [];
+  const reported = new Set<string>();
+
+  const send = (level: LogLevel, pkg: FrontendPackage, message: string, context: LogContext) => {
+    reportSafely(logger, level, pkg, message, context);
+  };
+
+  const reportVital = (name: WebVitalName, value: number, context: LogContext = {}) => {
+    if (reported.has(name)) return;
+    reported.add(name);
+    const poor = value > thresholds[name];
+    const shown = name === "CLS" ? value.toFixed(3) : `${Math.round(value)}ms`;
+    send(
+      poor ? "warn" : goodLevel,
+      name === "CLS" ? "style" : "page",
+      `${name} ${shown}${poor ? ` is poor (threshold ${thresholds[name]})` : ""}`,
+      {
+        metric: name,
+        value: name === "CLS" ? Number(value.toFixed(4)) : Math.round(value),
+        poor,
+        path: window.location.pathname,
+        ...context
+      }
+    );
+  };
+
+  const observe = (type: string, onEntries: (entries: PerformanceEntry[]) => void, init: Record<string, unknown> = {}) => {
+    if (!isSupported(type)) return;
+    const observer = new PerformanceObserver(list => onEntries(list.getEntries()));
+    observer.observe({ type, buffered: true, ...init } as PerformanceObserverInit);
+    observers.push(observer);
+  };
+
+  // TTFB and navigation timing
+  const reportNavigation = () => {
+    const [navigation] = performance.getEntriesByType("navigation") as PerformanceNavigationTiming[];
+    if (!navigation) return;
+    reportVital("TTFB", navigation.responseStart, { navigationType: navigation.type });
+    if (navigation.loadEventEnd > 0 && !reported.has("navigation")) {
+      reported.add("navigation");
+      send(goodLevel, "page", `Page loaded in ${Math.round(navigation.loadEventEnd)}ms`, {
+        path: window.location.pathname,
+        navigationType: navigation.type,
+        dnsMs: Math.round(navigation.domainLookupEnd - navigation.domainLookupStart),
+        connectMs: Math.round(navigation.connectEnd - navigation.connectStart),
+        ttfbMs: Math.round(navigation.responseStart),
+        domInteractiveMs: Math.round(navigation.domInteractive),
+        domContentLoadedMs: Math.round(navigation.domContentLoadedEventEnd),
+        loadMs: Math.round(navigation.loadEventEnd),
+        transferSize: navigation.transferSize
+      });
+    }
+  };
+  // loadEventEnd is only set once the load handlers have finished
+  const onLoad = () => setTimeout(reportNavigation, 0);
+  if (document.readyState === "complete") {
+    reportNavigation();
+  } else {
+    window.addEventListener("load", onLoad, { once: true });
+  }
+
+  observe("paint", entries => {
+    const fcp = entries.find(entry => entry.name === "first-contentful-paint");
+    if (fcp) reportVital("FCP", fcp.startTime);
+  });
+
+  let lcp: PerformanceEntry | null = null;
+  observe("largest-contentful-paint", entries => {
+    lcp = entries[entries.length - 1] ?? lcp;
+  });
+
+  let cls = 0;
+  let sessionValue = 0;
+  let sessionStart = 0;
+  let sessionLast = 0;
+  observe("layout-shift", entries => {
+    (entries as LayoutShiftEntry[]).forEach(shift => {
+      if (shift.hadRecentInput) return;
+      const continuesSession =
+        sessionValue > 0 &&
+        shift.startTime - sessionLast < CLS_SESSION_GAP_MS &&
+        shift.startTime - sessionStart < CLS_SESSION_MAX_MS;
+      if (continuesSession) {
+        sessionValue += shift.value;
+      } else {
+        sessionValue = shift.value;
+        sessionStart = shift.startTime;
+      }
+      sessionLast = shift.startTime;
+      cls = Math.max(cls, sessionValue);
+    });
+  });
+
+  // INP approximated as the slowest interaction; event entries share an interactionId per interaction
+  const interactions = new Map<number, number>();
+  observe(
+    "event",
+    entries => {
+      (entries as EventTimingEntry[]).forEach(entry => {
+        if (!entry.interactionId) return;
+        interactions.set(entry.interactionId, Math.max(interactions.get(entry.interactionId) ?? 0, entry.duration));
+      });
+    },
+    { durationThreshold: 40 }
+  );
+
+  let longTaskCount = 0;
+  let totalBlockingMs = 0;
+  observe("longtask", entries => {
+    entries.forEach(task => {
+      longTaskCount++;
+      totalBlockingMs += Math.max(0, task.duration - 50);
+      if (task.duration > thresholds.longTask) {
+        send("warn", "page", `Long task blocked the main thread for ${Math.round(task.duration)}ms`, {
+          durationMs: Math.round(task.duration),
+          startTime: Math.round(task.startTime),
+          path: window.location.pathname
+        });
+      }
+    });
+  });
+
+  const reportFinal = () => {
+    if (lcp) reportVital("LCP", lcp.startTime);
+    if (isSupported("layout-shift")) reportVital("CLS", cls);
+    if (interactions.size > 0) {
+      reportVital("INP", Math.max(...interactions.values()), { interactions: interactions.size });
+    }
+    if (longTaskCount > 0 && !reported.has("longTasks")) {
+      reported.add("longTasks");
+      send(goodLevel, "page", `${longTaskCount} long tasks, ${Math.round(totalBlockingMs)}ms total blocking time`, {
+        longTasks: longTaskCount,
+        totalBlockingMs: Math.round(totalBlockingMs),
+        path: window.location.pathname
+      });
+    }
+    // These listeners run after the logger's own unload flush, so flush again
+    void logger.flush?.({ unloading: true });
+  };
+
+  const onHidden = () => {
+    if (document.visibilityState === "hidden") reportFinal();
+  };
+  document.addEventListener("visibilitychange", onHidden);
+  window.addEventListener("pagehide", reportFinal);
+
+  return () => {
+    window.removeEventListener("load", onLoad);
+    document.removeEventListener("visibilitychange", onHidden);
+    window.removeEventListener("pagehide", reportFinal);
+    observers.forEach(observer => observer.disconnect());
+  };
+}
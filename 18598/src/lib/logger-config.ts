@@ -0,0 +1,95 @@
+/**
+ * Logger Configuration
+ * Service endpoints resolved from Vite environment variables and per-instance overrides
+ */
+
+import { LoggerError } from "./log-errors";
+
+export interface LoggerConfig {
+  /** Base URL of the evaluation service */
+  baseUrl: string;
+  /** Endpoint that exchanges credentials for a bearer token */
+  authEndpoint: string;
+  /** Endpoint that accepts log entries */
+  logsEndpoint: string;
+}
+
+/** Environment variables read by resolveLoggerConfig */
+export interface LoggerEnv {
+  VITE_LOGGER_BASE_URL?: string;
+  VITE_LOGGER_AUTH_ENDPOINT?: string;
+  VITE_LOGGER_LOGS_ENDPOINT?: string;
+}
+
+export const DEFAULT_API_BASE_URL = "http://20.244.56.144/evaluation-service";
+
+/**
+ * Error raised when a configured endpoint is not a usable URL
+ */
+export class LoggerConfigError extends LoggerError {
+  readonly field: keyof LoggerConfig;
+  readonly value: string;
+
+  constructor(field: keyof LoggerConfig, value: string, reason: string) {
+    super(`Invalid logger config "${field}" (${JSON.stringify(value)}): ${reason}`);
+    this.name = "LoggerConfigError";
+    this.field = field;
+    this.value = value;
+  }
+}
+
+/**
+ * Validate one endpoint. Relative paths such as "/api/logs" are resolved
+ * against the page origin so the logger can go through a dev-server proxy.
+ * @param field Config field being validated
+ * @param value Configured URL
+ * @returns Absolute URL without a trailing slash
+ */
+function validateUrl(field: keyof LoggerConfig, value: string): string {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    throw new LoggerConfigError(field, value, "URL must not be empty");
+  }
+
+  let url: URL;
+  try {
+    const origin = typeof window !== "undefined" ? window.location.origin : undefined;
+    url = new URL(trimmed, origin);
+  } catch {
+    throw new LoggerConfigError(field, value, "not a valid URL");
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new LoggerConfigError(field, value, `unsupported protocol "${url.protocol}"`);
+  }
+
+  return url.href.replace(/\/+$/, "");
+}
+
+/**
+ * Resolve and validate the logger configuration.
+ * Precedence: overrides, then environment variables, then the evaluation service defaults.
+ * Endpoints are derived from the base URL unless set explicitly; an overridden base URL
+ * takes precedence over endpoints coming from the environment.
+ * @param overrides Per-instance settings
+ * @param env Environment variables, defaults to import.meta.env
+ * @returns Validated configuration
+ */
+export function resolveLoggerConfig(
+  overrides: Partial<LoggerConfig> = {},
+  env: LoggerEnv = import.meta.env
+): LoggerConfig {
+  const baseUrl = validateUrl("baseUrl", overrides.baseUrl ?? env.VITE_LOGGER_BASE_URL ?? DEFAULT_API_BASE_URL);
+  const fromEnv = overrides.baseUrl === undefined;
+
+  const authEndpoint =
+    overrides.authEndpoint ?? ((fromEnv && env.VITE_LOGGER_AUTH_ENDPOINT) || `${baseUrl}/auth`);
+  const logsEndpoint =
+    overrides.logsEndpoint ?? ((fromEnv && env.VITE_LOGGER_LOGS_ENDPOINT) || `${baseUrl}/logs`);
+
+  return {
+    baseUrl,
+    authEndpoint: validateUrl("authEndpoint", authEndpoint),
+    logsEndpoint: validateUrl("logsEndpoint", logsEndpoint)
+  };
+}
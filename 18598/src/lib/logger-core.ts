@@ -0,0 +1,298 @@
+/**
+ * Logger Core
+ * Fans each log call out to one or more transports
+ */
+
+import type { FrontendPackage, LogLevel, LogResult } from "./logger";
+import { loggerConsole } from "./log-console";
+import type { LogContext } from "./log-context";
+import { matchDebugPackages, readDebugPattern } from "./log-debug";
+import { LoggerError, ValidationError } from "./log-errors";
+import { isLevelEnabled } from "./log-levels";
+import { createRedactor, type RedactionOptions } from "./log-redact";
+import { createSampler, type SamplingOptions } from "./log-sampling";
+import { getSessionId } from "./log-session";
+import { createThrottle, type ThrottleOptions } from "./log-throttle";
+import { startSpan, startTrace, type TraceContext } from "./log-trace";
+import type { FlushOptions, LogEntry, Transport } from "./transports";
+
+export type PackageLevels = Partial<Record<FrontendPackage, LogLevel>>;
+
+export interface LoggerCoreOptions {
+  /** Flush buffered entries when the page is hidden or unloaded (default true) */
+  flushOnUnload?: boolean;
+  /** Minimum level for packages without an override (default "warn" in production, "debug" otherwise) */
+  minLevel?: LogLevel;
+  /** Per-package minimum levels that take precedence over minLevel */
+  packageLevels?: PackageLevels;
+  /**
+   * Packages to log at debug level regardless of thresholds, e.g. "auth,api" or "*,-style".
+   * Defaults to the ?logdebug= parameter or localStorage.loggerpro; false ignores both.
+   */
+  debug?: string | false;
+  /** Probabilistic sampling by level and package; nothing is sampled when unset */
+  sampling?: SamplingOptions;
+  /** Collapse repeated messages and rate-limit each package; true uses the defaults */
+  throttle?: boolean | ThrottleOptions;
+  /** Redaction of emails, tokens, card numbers and credential fields (default on); false disables it */
+  redaction?: RedactionOptions | false;
+}
+
+export type LogMethod = (pkg: FrontendPackage, message: string, context?: LogContext) => Promise<LogResult | undefined>;
+export type PackageLogMethod = (message: string, context?: LogContext) => Promise<LogResult | undefined>;
+
+/** Context bound to a child logger; `package` pre-fills the FrontendPackage argument */
+export interface ChildBindings extends LogContext {
+  package?: FrontendPackage;
+}
+
+export interface PackageBindings extends ChildBindings {
+  package: FrontendPackage;
+}
+
+/** Logger whose methods take the package as their first argument */
+export interface ChildLogger {
+  debug: LogMethod;
+  info: LogMethod;
+  warn: LogMethod;
+  error: LogMethod;
+  fatal: LogMethod;
+  /** Trace every entry from this logger carries, if any */
+  readonly trace?: TraceContext;
+  child(bindings: PackageBindings): PackageLogger;
+  child(bindings: ChildBindings): ChildLogger;
+  /** Derive a logger whose entries carry the given trace (a new one when omitted) */
+  withTrace(trace?: TraceContext): ChildLogger;
+  /** Derive a logger for a new span of this logger's trace (a new trace when it has none) */
+  startSpan(): ChildLogger;
+}
+
+/** Logger bound to one package, whose methods take only message and context */
+export interface PackageLogger {
+  readonly package: FrontendPackage;
+  debug: PackageLogMethod;
+  info: PackageLogMethod;
+  warn: PackageLogMethod;
+  error: PackageLogMethod;
+  fatal: PackageLogMethod;
+  /** Trace every entry from this logger carries, if any */
+  readonly trace?: TraceContext;
+  /** Derive a logger with more bound context, or a different package */
+  child(bindings: ChildBindings): PackageLogger;
+  /** Derive a logger whose entries carry the given trace (a new one when omitted) */
+  withTrace(trace?: TraceContext): PackageLogger;
+  /** Derive a logger for a new span of this logger's trace (a new trace when it has none) */
+  startSpan(): PackageLogger;
+}
+
+export const DEFAULT_MIN_LEVEL: LogLevel = import.meta.env.PROD ? "warn" : "debug";
+
+const FILTERED: Promise<undefined> = Promise.resolve(undefined);
+
+/**
+ * Log without waiting for the result, for integrations reporting from event
+ * handlers and effects that have nobody to hand a rejection to. Delivery
+ * failures were already reported by the transport; anything else, such as a
+ * ValidationError raised before the entry was sent, goes to the console.
+ * @param logger Logger to report through
+ * @param level Log level
+ * @param pkg Frontend package the entry is logged under
+ * @param message Log message
+ * @param context Structured context for the entry
+ */
+export function reportSafely<L extends LogLevel>(
+  logger: Pick<ChildLogger, L>,
+  level: L,
+  pkg: FrontendPackage,
+  message: string,
+  context?: LogContext
+): void {
+  logger[level](pkg, message, context).catch(error => {
+    if (error instanceof ValidationError || !(error instanceof LoggerError)) {
+      loggerConsole.error(`❌ Could not log "${message}":`, error);
+    }
+  });
+}
+
+/**
+ * Create a logger that delivers every entry to each transport whose level filter admits it.
+ * A call resolves with the first evaluation-service response any transport returns; it
+ * rejects only when no transport produced a response and at least one of them failed.
+ * @param transports Destinations for log entries
+ * @param options Level thresholds, sampling, throttling, redaction and lifecycle behaviour
+ * @returns Object with logging methods, child, level controls, flush and dispose
+ */
+export function createLoggerCore(transports: Transport[], options: LoggerCoreOptions = {}) {
+  const dispatch = async (entry: LogEntry): Promise<LogResult | undefined> => {
+    const targets = transports.filter(transport => !transport.level || isLevelEnabled(entry.level, transport.level));
+    const results = await Promise.allSettled(targets.map(async transport => transport.send(entry)));
+
+    let response: LogResult | undefined;
+    const failures: { name: string; reason: unknown }[] = [];
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        response = response ?? (result.value || undefined);
+      } else {
+        failures.push({ name: targets[index].name, reason: result.reason });
+      }
+    });
+
+    if (!response && failures.length > 0) {
+      throw failures[0].reason;
+    }
+    failures.forEach(({ name, reason }) => loggerConsole.error(`❌ Transport "${name}" failed:`, reason));
+    return response;
+  };
+
+  let minLevel = options.minLevel ?? DEFAULT_MIN_LEVEL;
+  const packageLevels: PackageLevels = { ...options.packageLevels };
+
+  let debugPackages = new Set<FrontendPackage>();
+  const enableDebug = (pattern: string | null) => {
+    debugPackages = new Set(matchDebugPackages(pattern));
+    if (debugPackages.size > 0) {
+      loggerConsole.info(`🐛 Debug logging enabled for: ${[...debugPackages].join(", ")}`);
+    }
+  };
+  if (options.debug !== false) {
+    enableDebug(options.debug ?? readDebugPattern());
+  }
+
+  const getLevel = (pkg?: FrontendPackage): LogLevel =>
+    pkg && debugPackages.has(pkg) ? "debug" : (pkg && packageLevels[pkg]) || minLevel;
+  const isEnabled = (level: LogLevel, pkg: FrontendPackage) => isLevelEnabled(level, getLevel(pkg));
+
+  const sampler = createSampler(options.sampling);
+  const redactor = options.redaction === false ? null : createRedactor(options.redaction);
+  let redactionCount = 0;
+
+  // Runs after filtering so dropped calls cost nothing; the throttle keys on the raw message
+  const redact = (message: string, context?: LogContext) => {
+    if (!redactor) return { message, context, redactions: 0 };
+    const text = redactor.redactText(message);
+    const fields = context ? redactor.redactContext(context) : { value: context, count: 0 };
+    const redactions = text.count + fields.count;
+    redactionCount += redactions;
+    return { message: text.value, context: fields.value, redactions };
+  };
+
+  // Collapsed repeats and suppression summaries bypass thresholds and sampling
+  const throttle = options.throttle
+    ? createThrottle(options.throttle === true ? {} : options.throttle, report => {
+        const { message, redactions } = redact(report.message);
+        dispatch({ ...report, message, redactions, timestamp: Date.now(), sampleRate: 1, sessionId: getSessionId() }).catch(() => {
+          // Failures are already reported by the transports
+        });
+      })
+    : null;
+
+  // Filtered, sampled-out and throttled calls return before an entry is built or any transport is touched
+  const log = (level: LogLevel, pkg: FrontendPackage, message: string, context?: LogContext, trace?: TraceContext) => {
+    if (!isEnabled(level, pkg)) return FILTERED;
+    const sampleRate = sampler.rateFor(level, pkg);
+    if (!sampler.shouldKeep(sampleRate)) return FILTERED;
+    if (throttle && !throttle.admit(level, pkg, message)) return FILTERED;
+
+    return dispatch({
+      level,
+      package: pkg,
+      ...redact(message, context),
+      timestamp: Date.now(),
+      sampleRate,
+      sessionId: getSessionId(),
+      traceId: trace?.traceId,
+      spanId: trace?.spanId
+    });
+  };
+
+  // Call-site context wins over bound context for the same key
+  const merge = (bound: LogContext, context?: LogContext): LogContext | undefined =>
+    Object.keys(bound).length === 0 ? context : { ...bound, ...context };
+
+  const createPackageLogger = (pkg: FrontendPackage, bound: LogContext, trace?: TraceContext): PackageLogger => ({
+    package: pkg,
+    trace,
+    debug: (message, context) => log("debug", pkg, message, merge(bound, context), trace),
+    info: (message, context) => log("info", pkg, message, merge(bound, context), trace),
+    warn: (message, context) => log("warn", pkg, message, merge(bound, context), trace),
+    error: (message, context) => log("error", pkg, message, merge(bound, context), trace),
+    fatal: (message, context) => log("fatal", pkg, message, merge(bound, context), trace),
+    child: ({ package: childPkg, ...context }) => createPackageLogger(childPkg ?? pkg, { ...bound, ...context }, trace),
+    withTrace: (next = startTrace()) => createPackageLogger(pkg, bound, next),
+    startSpan: () => createPackageLogger(pkg, bound, startSpan(trace)),
+  });
+
+  const createChildLogger = (bound: LogContext, trace?: TraceContext): ChildLogger => ({
+    trace,
+    debug: (pkg, message, context) => log("debug", pkg, message, merge(bound, context), trace),
+    info: (pkg, message, context) => log("info", pkg, message, merge(bound, context), trace),
+    warn: (pkg, message, context) => log("warn", pkg, message, merge(bound, context), trace),
+    error: (pkg, message, context) => log("error", pkg, message, merge(bound, context), trace),
+    fatal: (pkg, message, context) => log("fatal", pkg, message, merge(bound, context), trace),
+    child: (({ package: pkg, ...context }: ChildBindings) =>
+      pkg
+        ? createPackageLogger(pkg, { ...bound, ...context }, trace)
+        : createChildLogger({ ...bound, ...context }, trace)) as ChildLogger["child"],
+    withTrace: (next = startTrace()) => createChildLogger(bound, next),
+    startSpan: () => createChildLogger(bound, startSpan(trace)),
+  });
+
+  const flush = async (flushOptions?: FlushOptions): Promise<void> => {
+    throttle?.flush();
+    await Promise.all(transports.map(transport => transport.flush?.(flushOptions)));
+  };
+
+  // pagehide is the last reliable event on unload (and fires for bfcache);
+  // visibilitychange covers mobile browsers that kill hidden tabs without one
+  const flushOnPageHide = () => {
+    void flush({ unloading: true });
+  };
+  const flushOnHidden = () => {
+    if (document.visibilityState === "hidden") {
+      flushOnPageHide();
+    }
+  };
+
+  const watchUnload = options.flushOnUnload !== false && typeof window !== "undefined";
+  if (watchUnload) {
+    window.addEventListener("pagehide", flushOnPageHide);
+    document.addEventListener("visibilitychange", flushOnHidden);
+  }
+
+  return {
+    ...createChildLogger({}),
+    /** Effective minimum level for a package, or the global one */
+    getLevel,
+    /** Whether a call at this level for this package would be sent */
+    isEnabled,
+    /** Change the global minimum level */
+    setLevel: (level: LogLevel) => {
+      minLevel = level;
+    },
+    /** Override the minimum level for one package; null removes the override */
+    setPackageLevel: (pkg: FrontendPackage, level: LogLevel | null) => {
+      if (level) {
+        packageLevels[pkg] = level;
+      } else {
+        delete packageLevels[pkg];
+      }
+    },
+    /** Replace the debug namespace pattern for this session; null turns it off */
+    enableDebug,
+    /** Total number of values redacted by this logger so far */
+    getRedactionCount: () => redactionCount,
+    /** Send anything the transports are still buffering; pass unloading when the page is going away */
+    flush: (flushOptions?: FlushOptions): Promise<void> => flush(flushOptions),
+    /** Release listeners and timers held by the logger and its transports */
+    dispose: () => {
+      if (watchUnload) {
+        window.removeEventListener("pagehide", flushOnPageHide);
+        document.removeEventListener("visibilitychange", flushOnHidden);
+      }
+      throttle?.dispose();
+      transports.forEach(transport => transport.dispose?.());
+    },
+  };
+}
+
+export type LoggerCore = ReturnType<typeof createLoggerCore>;
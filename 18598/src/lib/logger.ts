@@ -3,6 +3,107 @@
  * Reusable TypeScript module for frontend logging
  */
 
+import { createLogBatcher, type BatchOptions } from "./log-batcher";
+import { uninstrumentedFetch } from "./log-fetch";
+import { createLoggerCore, type LoggerCoreOptions } from "./logger-core";
+import { loggerConsole } from "./log-console";
+import { resolveLoggerConfig, type LoggerConfig } from "./logger-config";
+import { createRedactor } from "./log-redact";
+import {
+  authCredentialsSchema,
+  authResponseSchema,
+  logRequestSchema,
+  logResponseSchema,
+  parseSchema,
+} from "./log-schema";
+import { drainOfflineQueue, enqueueOfflineLog, LogQueuedError, type DrainResult } from "./offline-queue";
+import { createHttpError, HttpError, NetworkError, TimeoutError } from "./log-errors";
+import { isTransientError, withRetry, type RetryOption, type WithAttempts } from "./retry";
+import type { TokenProvider, TokenSource } from "./token-manager";
+import { formatEntryMessage, type FlushOptions, type LogEntry, type Transport, type TransportOptions } from "./transports";
+
+export { getAppLogger, setAppLogger } from "./app-logger";
+export type { BatchOptions } from "./log-batcher";
+export {
+  AuthRejectedError,
+  HttpError,
+  LoggerError,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+} from "./log-errors";
+export type { ValidationIssue } from "./log-errors";
+export { DEFAULT_CONSOLE_LEVELS, interceptConsole, loggerConsole } from "./log-console";
+export type { ConsoleInterceptOptions, ConsoleMethod, RestoreConsole } from "./log-console";
+export { appendContext, parseContext, stableStringify } from "./log-context";
+export type { LogContext } from "./log-context";
+export { DEBUG_QUERY_PARAM, DEBUG_STORAGE_KEY, matchDebugPackages, readDebugPattern } from "./log-debug";
+export { instrumentFetch, uninstrumentedFetch } from "./log-fetch";
+export type { FetchInstrumentationOptions, RestoreFetch } from "./log-fetch";
+export { installGlobalHandlers } from "./log-global-handlers";
+export type { GlobalHandlerOptions, UninstallGlobalHandlers } from "./log-global-handlers";
+export { FRONTEND_PACKAGES, isLevelEnabled, LOG_LEVELS } from "./log-levels";
+export { deferPageLog, getNavigationReferrer, recordNavigation, takePendingPageLogs } from "./log-navigation";
+export type { NavigationRecord, PendingPageLog } from "./log-navigation";
+export { DEFAULT_POOR_THRESHOLDS, observeWebVitals } from "./log-vitals";
+export type { PoorThresholds, StopWebVitals, WebVitalName, WebVitalsOptions } from "./log-vitals";
+export type { SamplingOptions } from "./log-sampling";
+export {
+  authCredentialsSchema,
+  authResponseSchema,
+  frontendPackageSchema,
+  logLevelSchema,
+  logRequestSchema,
+  logResponseSchema,
+  parseSchema,
+} from "./log-schema";
+export type { RateLimitOptions, ThrottleOptions } from "./log-throttle";
+export { createRedactor, SENSITIVE_KEYS } from "./log-redact";
+export type {
+  FunctionRedactionRule,
+  PatternRedactionRule,
+  RedactionOptions,
+  RedactionRule,
+} from "./log-redact";
+export { getSessionId } from "./log-session";
+export { formatTraceparent, startSpan, startTrace, tracedFetch, withTraceparent } from "./log-trace";
+export type { TraceContext } from "./log-trace";
+export { createLoggerCore, DEFAULT_MIN_LEVEL, reportSafely } from "./logger-core";
+export type {
+  ChildBindings,
+  ChildLogger,
+  LogMethod,
+  LoggerCore,
+  LoggerCoreOptions,
+  PackageBindings,
+  PackageLevels,
+  PackageLogger,
+  PackageLogMethod,
+} from "./logger-core";
+export { DEFAULT_API_BASE_URL, LoggerConfigError, resolveLoggerConfig } from "./logger-config";
+export type { LoggerConfig } from "./logger-config";
+export {
+  clearOfflineLogs,
+  countOfflineLogs,
+  getOfflineLogs,
+  isOfflineQueueSupported,
+  LogQueuedError,
+} from "./offline-queue";
+export type { DrainResult, QueuedLog } from "./offline-queue";
+export { DEFAULT_RETRY_POLICY, RetryError, unwrapRetryError } from "./retry";
+export type { RetryOption, RetryPolicy } from "./retry";
+export type { TokenProvider, TokenSource } from "./token-manager";
+export { createBeaconTransport, createConsoleTransport, createMemoryTransport, formatEntryMessage } from "./transports";
+export type {
+  BeaconTransportOptions,
+  FlushOptions,
+  LogEntry,
+  MemoryTransport,
+  MemoryTransportOptions,
+  Transport,
+  TransportOptions,
+} from "./transports";
+
 // Type definitions for the logging system
 export type LogLevel = "debug" | "info" | "warn" | "error" | "fatal";
 
@@ -45,101 +146,352 @@ export interface AuthResponse {
   expires_in: number;
 }
 
-// API Configuration
-const API_BASE_URL = "http://20.244.56.144/evaluation-service";
-const AUTH_ENDPOINT = `${API_BASE_URL}/auth`;
-const LOGS_ENDPOINT = `${API_BASE_URL}/logs`;
+/** Server response annotated with the number of attempts it took */
+export type LogResult = WithAttempts<LogResponse>;
+export type AuthResult = WithAttempts<AuthResponse>;
+
+export interface SendOptions {
+  /** Retry policy overrides, or false to send only once */
+  retry?: RetryOption;
+  /** Endpoint overrides on top of the environment configuration */
+  config?: Partial<LoggerConfig>;
+  /** Let the request outlive the page; used for fatal logs and anything sent while the page is hidden */
+  keepalive?: boolean;
+  /** Time each attempt may take before it fails with a TimeoutError (default 10s) */
+  timeoutMs?: number;
+}
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+
+// API Configuration - resolved at startup so a bad VITE_LOGGER_* value fails fast
+const defaultConfig = resolveLoggerConfig();
+
+const defaultRedactor = createRedactor();
+
+function getConfig(overrides?: Partial<LoggerConfig>): LoggerConfig {
+  return overrides ? resolveLoggerConfig(overrides) : defaultConfig;
+}
 
 /**
- * Main logging function - sends log to server
- * @param token Bearer token for authentication
+ * Build a log request payload in the shape expected by the server
  * @param level Log level (debug, info, warn, error, fatal)
  * @param pkg Frontend package where log originated
  * @param message Log message
- * @returns Promise with log response
+ * @returns Log request payload
+ * @throws ValidationError when the level or package is not one the server accepts
  */
-export async function logToServer(
-  token: string,
-  level: LogLevel,
-  pkg: FrontendPackage,
-  message: string
-): Promise<LogResponse> {
-  const logRequest: LogRequest = {
+function buildLogRequest(level: LogLevel, pkg: FrontendPackage, message: string): LogRequest {
+  return parseSchema(logRequestSchema, "LogRequest", {
     stack: "frontend",
-    level: level.toLowerCase() as LogLevel,
-    package: pkg.toLowerCase() as FrontendPackage,
+    level: String(level).toLowerCase(),
+    package: String(pkg).toLowerCase(),
     message
-  };
+  });
+}
 
+/**
+ * Fetch with a timeout, turning transport failures into typed errors
+ * @param url Request URL
+ * @param init Request options
+ * @param timeoutMs Time before the request is aborted
+ * @returns The response, whatever its status
+ * @throws TimeoutError when the timeout elapses, NetworkError when fetch itself fails
+ */
+async function request(url: string, init: RequestInit, timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
   try {
-    const response = await fetch(LOGS_ENDPOINT, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${token}`
-      },
-      body: JSON.stringify(logRequest)
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+    return await uninstrumentedFetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    throw controller.signal.aborted ? new TimeoutError(url, timeoutMs) : new NetworkError(url, error);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * POST a single prepared log request to the server, retrying transient failures
+ * @param token Bearer token for authentication
+ * @param logRequest Log request payload
+ * @param options Retry behaviour and endpoint overrides
+ * @returns Promise with log response and attempt count
+ */
+async function postLog(token: string, logRequest: LogRequest, options: SendOptions = {}): Promise<LogResult> {
+  const { logsEndpoint } = getConfig(options.config);
+  try {
+    const { result, attempts } = await withRetry(async () => {
+      const response = await request(logsEndpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify(logRequest),
+        keepalive: options.keepalive
+      }, options.timeoutMs);
+
+      if (!response.ok) {
+        throw await createHttpError(response, `HTTP error! status: ${response.status}`);
+      }
+
+      return parseSchema(logResponseSchema, "LogResponse", await response.json().catch(() => null));
+    }, options.retry);
 
-    const logResponse: LogResponse = await response.json();
-    console.log(`✅ Log sent successfully: ${logResponse.logID}`);
-    return logResponse;
+    loggerConsole.log(`✅ Log sent successfully: ${result.logID}`);
+    return { ...result, attempts };
     
   } catch (error) {
-    console.error("❌ Failed to send log:", error);
+    loggerConsole.error("❌ Failed to send log:", error);
     throw error;
   }
 }
 
+/**
+ * Main logging function - sends log to server
+ * @param token Bearer token for authentication
+ * @param level Log level (debug, info, warn, error, fatal)
+ * @param pkg Frontend package where log originated
+ * @param message Log message; credentials, tokens, emails and card numbers are redacted
+ * @param options Retry behaviour and endpoint overrides
+ * @returns Promise with log response and attempt count
+ */
+export async function logToServer(
+  token: string,
+  level: LogLevel,
+  pkg: FrontendPackage,
+  message: string,
+  options: SendOptions = {}
+): Promise<LogResult> {
+  return postLog(token, buildLogRequest(level, pkg, defaultRedactor.redactText(message).value), options);
+}
+
 /**
  * Authenticate with the server to get bearer token
  * @param credentials User credentials for authentication
- * @returns Promise with auth response containing token
+ * @param options Retry behaviour and endpoint overrides
+ * @returns Promise with auth response containing token and attempt count
  */
-export async function authenticate(credentials: AuthCredentials): Promise<AuthResponse> {
+export async function authenticate(credentials: AuthCredentials, options: SendOptions = {}): Promise<AuthResult> {
+  const { authEndpoint } = getConfig(options.config);
   try {
-    const response = await fetch(AUTH_ENDPOINT, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify(credentials)
-    });
-
-    if (!response.ok) {
-      throw new Error(`Authentication failed! status: ${response.status}`);
-    }
+    const body = parseSchema(authCredentialsSchema, "AuthCredentials", credentials);
+    const { result, attempts } = await withRetry(async () => {
+      const response = await request(authEndpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(body)
+      }, options.timeoutMs);
+
+      if (!response.ok) {
+        throw await createHttpError(response, `Authentication failed! status: ${response.status}`);
+      }
+
+      return parseSchema(authResponseSchema, "AuthResponse", await response.json().catch(() => null));
+    }, options.retry);
 
-    const authResponse: AuthResponse = await response.json();
-    console.log("🔐 Authentication successful");
-    return authResponse;
+    loggerConsole.log("🔐 Authentication successful");
+    return { ...result, attempts };
     
   } catch (error) {
-    console.error("❌ Authentication failed:", error);
+    loggerConsole.error("❌ Authentication failed:", error);
     throw error;
   }
 }
 
+function toTokenProvider(source: TokenSource): TokenProvider {
+  return typeof source === "string" ? { getToken: () => Promise.resolve(source) } : source;
+}
+
+/**
+ * Send a log with a token from the provider. If the server rejects the token
+ * and the provider can refresh it, the request is retried once with a new token.
+ * @param provider Token provider
+ * @param logRequest Log request payload
+ * @param options Retry behaviour and endpoint overrides
+ * @returns Promise with log response and attempt count
+ */
+async function postLogWithProvider(
+  provider: TokenProvider,
+  logRequest: LogRequest,
+  options: SendOptions = {}
+): Promise<LogResult> {
+  const token = await provider.getToken();
+  try {
+    return await postLog(token, logRequest, options);
+  } catch (error) {
+    if (!(error instanceof HttpError && error.status === 401) || !provider.refreshToken) {
+      throw error;
+    }
+    loggerConsole.warn("🔑 Token rejected by server, refreshing and retrying once");
+    return postLog(await provider.refreshToken(), logRequest, options);
+  }
+}
+
+/**
+ * Replay logs from the offline queue. Entries that fail transiently (or with
+ * a rejected token) stay queued; entries the server refuses outright are dropped.
+ * @param token Bearer token or token provider
+ * @param options Retry behaviour and endpoint overrides
+ * @returns Promise with counts of sent, dropped and remaining entries
+ */
+export function replayOfflineLogs(token: TokenSource, options: SendOptions = {}): Promise<DrainResult> {
+  const provider = toTokenProvider(token);
+  return drainOfflineQueue(async (request) => {
+    try {
+      await postLogWithProvider(provider, request, options);
+      return "sent";
+    } catch (error) {
+      const rejectedToken = error instanceof HttpError && error.status === 401;
+      return isTransientError(error, options.retry) || rejectedToken ? "retry-later" : "drop";
+    }
+  });
+}
+
+export interface HttpTransportOptions extends TransportOptions {
+  /** Buffer entries and send them in batches instead of one request per call */
+  batch?: boolean | BatchOptions;
+  /** Retry policy overrides, or false to send only once */
+  retry?: RetryOption;
+  /** Endpoint overrides on top of the environment configuration */
+  config?: Partial<LoggerConfig>;
+  /** Time each request may take before it fails with a TimeoutError (default 10s) */
+  timeoutMs?: number;
+  /** Keep logs that fail transiently in a durable queue and replay them when back online */
+  offlineQueue?: boolean;
+}
+
+export interface HttpTransport extends Transport {
+  send(entry: LogEntry): Promise<LogResult>;
+  flush(options?: FlushOptions): Promise<void>;
+  /** Replay the offline queue now instead of waiting for the next reconnect */
+  replayOfflineLogs(): Promise<DrainResult>;
+}
+
+/**
+ * Whether the page is hidden, which is also the case once it starts unloading;
+ * it may be discarded from here on without another event
+ */
+function isPageHidden(): boolean {
+  return typeof document !== "undefined" && document.visibilityState === "hidden";
+}
+
+/**
+ * Create a transport that sends entries to the evaluation service /logs endpoint
+ * @param token Bearer token, or a provider such as a token manager that keeps it fresh
+ * @param options Endpoints, batching, retries, timeouts, offline queueing and level filter
+ * @returns HTTP transport with replayOfflineLogs
+ */
+export function createHttpTransport(token: TokenSource, options: HttpTransportOptions = {}): HttpTransport {
+  const provider = toTokenProvider(token);
+  const config = getConfig(options.config);
+  const sendOptions: SendOptions = { retry: options.retry, config, timeoutMs: options.timeoutMs };
+  // keepalive requests share a ~64KB budget and there is no time left to back off
+  const keepaliveOptions: SendOptions = { ...sendOptions, retry: false, keepalive: true };
+  // A fatal log may be the last thing before a crash or reload, so it outlives the page,
+  // but it is still retried while the page is around to do so
+  const fatalOptions: SendOptions = { ...sendOptions, keepalive: true };
+
+  const queueForReplay = async (request: LogRequest, reason: unknown): Promise<never> => {
+    try {
+      await enqueueOfflineLog(request);
+    } catch (queueError) {
+      loggerConsole.error("❌ Failed to queue log for replay:", queueError);
+      throw reason;
+    }
+    loggerConsole.warn("📥 Log queued for replay once the service is reachable");
+    throw new LogQueuedError(request, reason);
+  };
+
+  const send = async (request: LogRequest, overrides: SendOptions = sendOptions): Promise<LogResult> => {
+    if (options.offlineQueue && typeof navigator !== "undefined" && !navigator.onLine) {
+      return queueForReplay(request, new TypeError("Browser is offline"));
+    }
+    try {
+      return await postLogWithProvider(provider, request, overrides);
+    } catch (error) {
+      if (options.offlineQueue && isTransientError(error, options.retry)) {
+        return queueForReplay(request, error);
+      }
+      throw error;
+    }
+  };
+
+  // The /logs endpoint accepts one entry per request, so a batch is
+  // delivered as individual POSTs issued together at flush time
+  const batcher = options.batch
+    ? createLogBatcher(
+        requests => Promise.allSettled(requests.map(request => send(request))),
+        options.batch === true ? {} : options.batch
+      )
+    : null;
+
+  const flushWith = (overrides: SendOptions): Promise<void> => {
+    if (!batcher) return Promise.resolve();
+    return batcher.flush(requests => Promise.allSettled(requests.map(request => send(request, overrides))));
+  };
+
+  const flush = (flushOptions: FlushOptions = {}): Promise<void> => {
+    if (!batcher) return Promise.resolve();
+    return flushOptions.unloading ? flushWith(keepaliveOptions) : batcher.flush();
+  };
+
+  const replay = () => replayOfflineLogs(provider, sendOptions);
+  const replayInBackground = () => {
+    replay().catch(error => loggerConsole.error("❌ Failed to replay offline logs:", error));
+  };
+
+  // Drain whatever a previous session left behind, then again on every reconnect
+  if (options.offlineQueue && typeof window !== "undefined") {
+    window.addEventListener("online", replayInBackground);
+    replayInBackground();
+  }
+
+  return {
+    name: "http",
+    level: options.level,
+    send: (entry: LogEntry): Promise<LogResult> => {
+      const request = buildLogRequest(entry.level, entry.package, formatEntryMessage(entry));
+      if (entry.level === "fatal") {
+        // Send it and everything buffered ahead of it right away
+        const fatalSendOptions = isPageHidden() ? keepaliveOptions : fatalOptions;
+        void flushWith(fatalSendOptions);
+        return send(request, fatalSendOptions);
+      }
+      if (batcher) return batcher.enqueue(request);
+      // A plain request is cancelled if the tab closes while it is in flight
+      return send(request, isPageHidden() ? keepaliveOptions : sendOptions);
+    },
+    flush,
+    replayOfflineLogs: replay,
+    dispose: () => {
+      if (typeof window !== "undefined") {
+        window.removeEventListener("online", replayInBackground);
+      }
+    },
+  };
+}
+
+export interface LoggerOptions extends Omit<HttpTransportOptions, "level">, LoggerCoreOptions {
+  /** Additional transports that receive every entry alongside the evaluation service */
+  transports?: Transport[];
+}
+
 /**
  * Utility function to create a logger instance with token
- * @param token Bearer token
- * @returns Object with logging methods
+ * @param token Bearer token, or a provider such as a token manager that keeps it fresh
+ * @param options Evaluation service behaviour, level thresholds and any additional transports
+ * @returns Object with logging methods, level controls, flush, replayOfflineLogs and dispose
  */
-export function createLogger(token: string) {
+export function createLogger(token: TokenSource, options: LoggerOptions = {}) {
+  const http = createHttpTransport(token, options);
+
   return {
-    debug: (pkg: FrontendPackage, message: string) => 
-      logToServer(token, "debug", pkg, message),
-    info: (pkg: FrontendPackage, message: string) => 
-      logToServer(token, "info", pkg, message),
-    warn: (pkg: FrontendPackage, message: string) => 
-      logToServer(token, "warn", pkg, message),
-    error: (pkg: FrontendPackage, message: string) => 
-      logToServer(token, "error", pkg, message),
-    fatal: (pkg: FrontendPackage, message: string) => 
-      logToServer(token, "fatal", pkg, message),
+    ...createLoggerCore([http, ...(options.transports ?? [])], options),
+    /** Replay the offline queue now instead of waiting for the next reconnect */
+    replayOfflineLogs: http.replayOfflineLogs,
   };
-}
\ No newline at end of file
+}
+
+export type Logger = ReturnType<typeof createLogger>;
@@ -0,0 +1,168 @@
+/**
+ * Offline Log Queue
+ * IndexedDB-backed store for log requests that could not be delivered
+ */
+
+import type { LogRequest } from "./logger";
+import { LoggerError } from "./log-errors";
+
+export interface QueuedLog {
+  id: number;
+  request: LogRequest;
+  queuedAt: number;
+}
+
+export interface DrainResult {
+  sent: number;
+  dropped: number;
+  remaining: number;
+}
+
+/** Outcome of a single replay attempt, decided by the caller */
+export type ReplayOutcome = "sent" | "retry-later" | "drop";
+
+/**
+ * Error raised when a log could not be sent now and was queued for replay
+ */
+export class LogQueuedError extends LoggerError {
+  readonly request: LogRequest;
+  readonly reason: unknown;
+
+  constructor(request: LogRequest, reason: unknown) {
+    super("Log could not be sent and was queued for replay");
+    this.name = "LogQueuedError";
+    this.request = request;
+    this.reason = reason;
+  }
+}
+
+const DB_NAME = "loggerpro";
+const DB_VERSION = 1;
+const STORE_NAME = "offline-logs";
+const MAX_QUEUED_LOGS = 500;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let drainPromise: Promise<DrainResult> | null = null;
+
+/**
+ * Check whether IndexedDB is available in this environment
+ * @returns True when logs can be queued durably
+ */
+export function isOfflineQueueSupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Persist a log request for later delivery, dropping the oldest entries beyond the cap
+ * @param request Log request payload
+ * @throws LoggerError when IndexedDB is not available, so nothing could be stored
+ */
+export async function enqueueOfflineLog(request: LogRequest): Promise<void> {
+  if (!isOfflineQueueSupported()) {
+    throw new LoggerError("Offline queue is not supported: IndexedDB is unavailable");
+  }
+
+  await withStore("readwrite", store => store.add({ request, queuedAt: Date.now() }));
+
+  const count = await countOfflineLogs();
+  if (count > MAX_QUEUED_LOGS) {
+    const overflow = (await getOfflineLogs()).slice(0, count - MAX_QUEUED_LOGS);
+    await Promise.all(overflow.map(entry => removeOfflineLog(entry.id)));
+  }
+}
+
+/**
+ * List queued log requests, oldest first
+ * @returns Promise with queued entries
+ */
+export async function getOfflineLogs(): Promise<QueuedLog[]> {
+  if (!isOfflineQueueSupported()) return [];
+  return withStore<QueuedLog[]>("readonly", store => store.getAll());
+}
+
+/**
+ * Count queued log requests
+ * @returns Promise with number of queued entries
+ */
+export async function countOfflineLogs(): Promise<number> {
+  if (!isOfflineQueueSupported()) return 0;
+  return withStore("readonly", store => store.count());
+}
+
+/**
+ * Remove one queued log request
+ * @param id Queue entry id
+ */
+export async function removeOfflineLog(id: number): Promise<void> {
+  if (!isOfflineQueueSupported()) return;
+  await withStore("readwrite", store => store.delete(id));
+}
+
+/**
+ * Remove every queued log request
+ */
+export async function clearOfflineLogs(): Promise<void> {
+  if (!isOfflineQueueSupported()) return;
+  await withStore("readwrite", store => store.clear());
+}
+
+/**
+ * Replay queued log requests in order, stopping at the first one that should be retried later.
+ * Concurrent calls share the same drain.
+ * @param replay Sends one request and reports what to do with the entry
+ * @returns Promise with counts of sent, dropped and remaining entries
+ */
+export function drainOfflineQueue(replay: (request: LogRequest) => Promise<ReplayOutcome>): Promise<DrainResult> {
+  if (!drainPromise) {
+    drainPromise = (async () => {
+      const result: DrainResult = { sent: 0, dropped: 0, remaining: 0 };
+      const entries = await getOfflineLogs();
+
+      for (let index = 0; index < entries.length; index++) {
+        const outcome = await replay(entries[index].request);
+        if (outcome === "retry-later") {
+          result.remaining = entries.length - index;
+          break;
+        }
+        await removeOfflineLog(entries[index].id);
+        result[outcome === "sent" ? "sent" : "dropped"]++;
+      }
+
+      return result;
+    })().finally(() => {
+      drainPromise = null;
+    });
+  }
+  return drainPromise;
+}
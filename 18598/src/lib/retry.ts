@@ -0,0 +1,138 @@
+/**
+ * Retry Policy
+ * Exponential backoff with jitter for requests to the evaluation service
+ */
+
+import { loggerConsole } from "./log-console";
+import { HttpError, LoggerError, NetworkError, TimeoutError } from "./log-errors";
+
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on every further retry */
+  baseDelayMs: number;
+  /** Upper bound for a single delay */
+  maxDelayMs: number;
+  /** Fraction (0-1) of each delay that is randomised */
+  jitter: number;
+  /** Decides whether a failed HTTP status is worth another attempt */
+  isRetryableStatus: (status: number) => boolean;
+}
+
+export type RetryOption = Partial<RetryPolicy> | false;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  jitter: 0.5,
+  isRetryableStatus: (status) => status === 429 || status >= 500
+};
+
+export type WithAttempts<T> = T & { attempts: number };
+
+/**
+ * Error raised once an operation has failed with something other than a
+ * LoggerError and will not be retried; LoggerErrors are rethrown as they are
+ */
+export class RetryError extends LoggerError {
+  readonly status?: number;
+  readonly lastError: unknown;
+
+  constructor(lastError: unknown, attempts: number) {
+    const reason = lastError instanceof Error ? lastError.message : String(lastError);
+    super(`${reason} (after ${attempts} attempt${attempts === 1 ? "" : "s"})`);
+    this.name = "RetryError";
+    this.attempts = attempts;
+    this.status = lastError instanceof HttpError ? lastError.status : undefined;
+    this.lastError = lastError;
+  }
+}
+
+/**
+ * Merge a partial retry option with the defaults
+ * @param option Partial policy, or false to disable retries
+ * @returns Complete retry policy
+ */
+export function resolveRetryPolicy(option: RetryOption = {}): RetryPolicy {
+  if (option === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...option };
+}
+
+/**
+ * Compute the delay before the given retry
+ * @param policy Retry policy
+ * @param retry Retry number, starting at 1
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(policy: RetryPolicy, retry: number): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+  return Math.round(exponential * (1 - jitter) + exponential * jitter * Math.random());
+}
+
+function isRetryable(error: unknown, policy: RetryPolicy): boolean {
+  if (error instanceof HttpError) {
+    return policy.isRetryableStatus(error.status);
+  }
+  // fetch rejects with a TypeError when the network request itself fails
+  return error instanceof NetworkError || error instanceof TimeoutError || error instanceof TypeError;
+}
+
+/**
+ * Get the failure behind a RetryError, or the error itself
+ * @param error Caught error
+ * @returns The last error the operation threw
+ */
+export function unwrapRetryError(error: unknown): unknown {
+  return error instanceof RetryError ? error.lastError : error;
+}
+
+/**
+ * Check whether a failure is transient (network error or retryable status),
+ * looking through a RetryError to the failure underneath
+ * @param error Caught error
+ * @param option Retry policy used to classify statuses
+ * @returns True when the same request may succeed later
+ */
+export function isTransientError(error: unknown, option: RetryOption = {}): boolean {
+  return isRetryable(unwrapRetryError(error), resolveRetryPolicy(option));
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run an operation, retrying transient failures according to the policy
+ * @param operation Async operation; receives the current attempt number
+ * @param option Partial policy, or false to disable retries
+ * @returns Promise with the operation result and the number of attempts made
+ * @throws The last LoggerError with its attempts set, or a RetryError wrapping any other failure
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  option: RetryOption = {}
+): Promise<{ result: T; attempts: number }> {
+  const policy = resolveRetryPolicy(option);
+  let attempt = 0;
+
+  for (;;) {
+    attempt++;
+    try {
+      const result = await operation(attempt);
+      return { result, attempts: attempt };
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryable(error, policy)) {
+        if (error instanceof LoggerError) {
+          error.attempts = attempt;
+          throw error;
+        }
+        throw new RetryError(error, attempt);
+      }
+      const delay = getRetryDelay(policy, attempt);
+      loggerConsole.warn(`🔁 Retrying in ${delay}ms (attempt ${attempt + 1}/${policy.maxAttempts})`);
+      await sleep(delay);
+    }
+  }
+}
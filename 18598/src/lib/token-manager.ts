@@ -0,0 +1,100 @@
+/**
+ * Token Lifecycle Manager
+ * Keeps a bearer token fresh by re-authenticating before it expires
+ */
+
+import { authenticate, type AuthCredentials, type AuthResponse, type SendOptions } from "./logger";
+import { loggerConsole } from "./log-console";
+
+export interface TokenProvider {
+  /** Resolve a token that is valid right now */
+  getToken(): Promise<string>;
+  /** Discard the current token and obtain a new one */
+  refreshToken?(): Promise<string>;
+}
+
+/** A fixed bearer token or something that can supply one on demand */
+export type TokenSource = string | TokenProvider;
+
+export interface TokenManagerOptions extends SendOptions {
+  /** Re-authenticate this long before the token actually expires */
+  refreshMarginMs?: number;
+  /** Auth response already obtained for these credentials, used as the first token */
+  initial?: AuthResponse;
+}
+
+interface TokenSession {
+  token: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+const DEFAULT_REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * Work out when a token expires. The evaluation service reports `expires_in`
+ * as a Unix timestamp in seconds; small values are treated as a lifetime in seconds.
+ * @param response Auth response
+ * @param issuedAt Time the token was received (ms)
+ * @returns Expiry time in milliseconds since the epoch
+ */
+export function getTokenExpiry(response: AuthResponse, issuedAt: number): number {
+  const expiresIn = response.expires_in;
+  return expiresIn > 1e9 ? expiresIn * 1000 : issuedAt + expiresIn * 1000;
+}
+
+/**
+ * Create a token provider that authenticates with stored credentials and
+ * re-authenticates shortly before the token expires
+ * @param credentials Credentials used for every (re-)authentication
+ * @param options Refresh margin, initial auth response, retry behaviour and endpoints
+ * @returns Token manager implementing TokenProvider
+ */
+export function createTokenManager(credentials: AuthCredentials, options: TokenManagerOptions = {}) {
+  const refreshMarginMs = options.refreshMarginMs ?? DEFAULT_REFRESH_MARGIN_MS;
+  let session: TokenSession | null = null;
+  let pending: Promise<string> | null = null;
+
+  const store = (response: AuthResponse): string => {
+    const issuedAt = Date.now();
+    session = {
+      token: response.access_token,
+      issuedAt,
+      expiresAt: getTokenExpiry(response, issuedAt)
+    };
+    return session.token;
+  };
+
+  if (options.initial) {
+    store(options.initial);
+  }
+
+  const refreshToken = (): Promise<string> => {
+    if (!pending) {
+      loggerConsole.log("🔑 Refreshing authentication token");
+      pending = authenticate(credentials, { retry: options.retry, config: options.config })
+        .then(store)
+        .finally(() => {
+          pending = null;
+        });
+    }
+    return pending;
+  };
+
+  const isFresh = () => session !== null && Date.now() < session.expiresAt - refreshMarginMs;
+
+  return {
+    getToken: (): Promise<string> => (isFresh() ? Promise.resolve(session.token) : refreshToken()),
+    refreshToken,
+    /** Current token without refreshing, or null if none has been issued */
+    peekToken: (): string | null => session?.token ?? null,
+    get issuedAt(): number | null {
+      return session?.issuedAt ?? null;
+    },
+    get expiresAt(): number | null {
+      return session?.expiresAt ?? null;
+    },
+  };
+}
+
+export type TokenManager = ReturnType<typeof createTokenManager>;
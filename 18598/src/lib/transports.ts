@@ -0,0 +1,194 @@
+/**
+ * Log Transports
+ * Destinations a logger can fan entries out to
+ */
+
+import type { FrontendPackage, LogLevel, LogRequest, LogResult } from "./logger";
+import { loggerConsole } from "./log-console";
+import { appendContext, type LogContext } from "./log-context";
+
+/** A single log call as seen by every transport */
+export interface LogEntry {
+  level: LogLevel;
+  package: FrontendPackage;
+  message: string;
+  /** Time of the call in milliseconds since the epoch */
+  timestamp: number;
+  /** Sampling rate that applied to this entry (1 when it was not sampled) */
+  sampleRate: number;
+  /** Number of identical calls this entry stands for, when repeats were collapsed */
+  occurrences?: number;
+  /** Structured fields supplied by the caller */
+  context?: LogContext;
+  /** Browser session the entry came from */
+  sessionId: string;
+  /** W3C trace id of the operation, when logged through a traced logger */
+  traceId?: string;
+  /** W3C span id of the operation step, when logged through a traced logger */
+  spanId?: string;
+  /** Number of values the redaction stage replaced in message and context */
+  redactions?: number;
+}
+
+export interface Transport {
+  /** Name used in diagnostics */
+  readonly name: string;
+  /** Minimum level this transport receives; everything when unset */
+  level?: LogLevel;
+  /** Deliver one entry. Transports that talk to the evaluation service resolve with its response */
+  send(entry: LogEntry): Promise<LogResult | void> | void;
+  /** Deliver anything the transport is still holding */
+  flush?(options?: FlushOptions): Promise<void>;
+  /** Release listeners and timers */
+  dispose?(): void;
+}
+
+/**
+ * Render an entry as the single message string the evaluation service accepts.
+ * Context and logger metadata ($-prefixed keys) are appended as sorted JSON,
+ * which parseContext turns back into fields.
+ * @param entry Log entry
+ * @returns Message with context appended when there is any
+ */
+export function formatEntryMessage(entry: LogEntry): string {
+  const context: LogContext = { ...entry.context, $sessionId: entry.sessionId };
+  if (entry.traceId) {
+    context.$traceId = entry.traceId;
+    context.$spanId = entry.spanId;
+  }
+  if (entry.occurrences) {
+    context.$occurrences = entry.occurrences;
+  }
+  if (entry.sampleRate < 1) {
+    context.$sampleRate = entry.sampleRate;
+  }
+  return appendContext(entry.message, context);
+}
+
+export interface FlushOptions {
+  /** The page is being hidden or unloaded; only requests that outlive the page will arrive */
+  unloading?: boolean;
+}
+
+export interface TransportOptions {
+  /** Minimum level this transport receives */
+  level?: LogLevel;
+}
+
+const CONSOLE_METHODS: Record<LogLevel, "debug" | "info" | "warn" | "error"> = {
+  debug: "debug",
+  info: "info",
+  warn: "warn",
+  error: "error",
+  fatal: "error"
+};
+
+const CONSOLE_STYLES: Record<LogLevel, string> = {
+  debug: "color: #6b7280",
+  info: "color: #2563eb",
+  warn: "color: #d97706",
+  error: "color: #dc2626",
+  fatal: "color: #ffffff; background: #991b1b; padding: 0 4px; border-radius: 2px"
+};
+
+/**
+ * Create a transport that pretty-prints entries to the browser console
+ * @param options Level filter
+ * @returns Console transport
+ */
+export function createConsoleTransport(options: TransportOptions = {}): Transport {
+  return {
+    name: "console",
+    level: options.level,
+    send(entry) {
+      const time = new Date(entry.timestamp).toISOString().slice(11, 23);
+      const args: unknown[] = [
+        `%c${entry.level.toUpperCase()}%c ${time} [${entry.package}] ${entry.message}`,
+        `${CONSOLE_STYLES[entry.level]}; font-weight: bold`,
+        "color: inherit"
+      ];
+      // Pass context as an object so devtools can expand it
+      if (entry.context && Object.keys(entry.context).length > 0) {
+        args.push(entry.context);
+      }
+      loggerConsole[CONSOLE_METHODS[entry.level]](...args);
+    }
+  };
+}
+
+export interface MemoryTransportOptions extends TransportOptions {
+  /** Number of entries kept before the oldest is overwritten */
+  capacity?: number;
+}
+
+export interface MemoryTransport extends Transport {
+  /** Buffered entries, oldest first */
+  entries(): LogEntry[];
+  clear(): void;
+}
+
+/**
+ * Create a transport that keeps the most recent entries in a ring buffer
+ * @param options Level filter and capacity
+ * @returns Memory transport with entries and clear
+ */
+export function createMemoryTransport(options: MemoryTransportOptions = {}): MemoryTransport {
+  const capacity = Math.max(1, options.capacity ?? 100);
+  const buffer: LogEntry[] = new Array(capacity);
+  let start = 0;
+  let size = 0;
+
+  return {
+    name: "memory",
+    level: options.level,
+    send(entry) {
+      buffer[(start + size) % capacity] = entry;
+      if (size < capacity) {
+        size++;
+      } else {
+        start = (start + 1) % capacity;
+      }
+    },
+    entries() {
+      return Array.from({ length: size }, (_, index) => buffer[(start + index) % capacity]);
+    },
+    clear() {
+      start = 0;
+      size = 0;
+    }
+  };
+}
+
+export interface BeaconTransportOptions extends TransportOptions {
+  /** Collector URL; sendBeacon cannot set an Authorization header, so this must not require one */
+  url: string;
+}
+
+/**
+ * Create a transport that posts entries with navigator.sendBeacon. Beacons
+ * survive page unload but carry no custom headers, so point this at a
+ * same-origin collector or proxy that adds the bearer token itself.
+ * @param options Collector URL and level filter
+ * @returns Beacon transport
+ */
+export function createBeaconTransport(options: BeaconTransportOptions): Transport {
+  return {
+    name: "beacon",
+    level: options.level,
+    send(entry) {
+      if (typeof navigator === "undefined" || typeof navigator.sendBeacon !== "function") {
+        throw new Error("navigator.sendBeacon is not available");
+      }
+      const logRequest: LogRequest = {
+        stack: "frontend",
+        level: entry.level,
+        package: entry.package,
+        message: formatEntryMessage(entry)
+      };
+      const body = new Blob([JSON.stringify(logRequest)], { type: "application/json" });
+      if (!navigator.sendBeacon(options.url, body)) {
+        throw new Error("sendBeacon refused the log entry");
+      }
+    }
+  };
+}
@@ -1,18 +1,12 @@
-import { useState } from "react";
 import { AuthSection } from "@/components/AuthSection";
 import { LoggingDemo } from "@/components/LoggingDemo";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { useLoggerSession } from "@/hooks/use-logger";
 
 const Index = () => {
-  const [token, setToken] = useState<string | null>(null);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-
-  const handleAuthSuccess = (authToken: string) => {
-    setToken(authToken);
-    setIsAuthenticated(true);
-  };
+  const { isAuthenticated, signIn } = useLoggerSession();
 
   return (
     <div className="min-h-screen bg-background">
@@ -159,12 +153,12 @@ const Index = () => {
 
           {/* Authentication Section */}
           <AuthSection 
-            onAuthSuccess={handleAuthSuccess}
+            onAuthSuccess={signIn}
             isAuthenticated={isAuthenticated}
           />
 
           {/* Logging Demo Section */}
-          <LoggingDemo token={token} />
+          <LoggingDemo />
         </div>
 
         {/* Footer */}
@@ -1,21 +1,41 @@
-import { useLocation } from "react-router-dom";
-import { useEffect } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { useEffect, useRef } from "react";
+import { useLogger } from "@/hooks/use-logger";
+import { deferPageLog, getNavigationReferrer } from "@/lib/log-navigation";
+import { reportSafely } from "@/lib/logger";
 
 const NotFound = () => {
   const location = useLocation();
+  const logger = useLogger();
+  // Read through a ref so each visit is reported once, not again at sign-in
+  const loggerRef = useRef(logger);
+  useEffect(() => {
+    loggerRef.current = logger;
+  });
 
   useEffect(() => {
-    console.error("404 Error: User attempted to access non-existent route:", location.pathname);
-  }, [location.pathname]);
+    const message = `404: no route for ${location.pathname}`;
+    const context = {
+      path: location.pathname,
+      search: location.search || undefined,
+      referrer: getNavigationReferrer()
+    };
+    if (loggerRef.current) {
+      reportSafely(loggerRef.current, "warn", "page", message, context);
+    } else {
+      // RouteLogger sends it once somebody signs in
+      deferPageLog({ level: "warn", message, context });
+    }
+  }, [location.pathname, location.search]);
 
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-100">
       <div className="text-center">
         <h1 className="mb-4 text-4xl font-bold">404</h1>
         <p className="mb-4 text-xl text-gray-600">Oops! Page not found</p>
-        <a href="/" className="text-blue-500 underline hover:text-blue-700">
+        <Link to="/" className="text-blue-500 underline hover:text-blue-700">
           Return to Home
-        </a>
+        </Link>
       </div>
     </div>
   );
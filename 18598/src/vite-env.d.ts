@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LOGGER_BASE_URL?: string;
+  readonly VITE_LOGGER_AUTH_ENDPOINT?: string;
+  readonly VITE_LOGGER_LOGS_ENDPOINT?: string;
+}
@@ -30,8 +30,56 @@ export interface LogResponse {
   message: string;
 }
 
+export interface LoggerConfig {
+  baseUrl: string;
+  authEndpoint: string;
+  logsEndpoint: string;
+}
+
 // API Configuration
-const LOGS_ENDPOINT = "http://20.244.56.144/evaluation-service/logs";
+const DEFAULT_API_BASE_URL = "http://20.244.56.144/evaluation-service";
+
+function validateUrl(field: keyof LoggerConfig, value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`Invalid logger config "${field}": ${JSON.stringify(value)} is not a valid URL`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Invalid logger config "${field}": unsupported protocol "${url.protocol}"`);
+  }
+  return url.href.replace(/\/+$/, "");
+}
+
+/**
+ * Resolve service endpoints from overrides, then NEXT_PUBLIC_LOGGER_* environment variables,
+ * then the evaluation service defaults
+ * @param overrides Per-instance settings
+ * @returns Validated configuration
+ */
+export function resolveLoggerConfig(overrides: Partial<LoggerConfig> = {}): LoggerConfig {
+  const baseUrl = validateUrl(
+    "baseUrl",
+    overrides.baseUrl ?? process.env.NEXT_PUBLIC_LOGGER_BASE_URL ?? DEFAULT_API_BASE_URL
+  );
+  const fromEnv = overrides.baseUrl === undefined;
+
+  return {
+    baseUrl,
+    authEndpoint: validateUrl(
+      "authEndpoint",
+      overrides.authEndpoint ?? ((fromEnv && process.env.NEXT_PUBLIC_LOGGER_AUTH_ENDPOINT) || `${baseUrl}/auth`)
+    ),
+    logsEndpoint: validateUrl(
+      "logsEndpoint",
+      overrides.logsEndpoint ?? ((fromEnv && process.env.NEXT_PUBLIC_LOGGER_LOGS_ENDPOINT) || `${baseUrl}/logs`)
+    )
+  };
+}
+
+// Resolved at startup so a misconfigured environment fails fast
+export const loggerConfig = resolveLoggerConfig();
 
 /**
  * Main logging function - sends log to evaluation server
@@ -39,13 +87,15 @@ const LOGS_ENDPOINT = "http://20.244.56.144/evaluation-service/logs";
  * @param level Log level (debug, info, warn, error, fatal)
  * @param pkg Frontend package where log originated
  * @param message Log message content
+ * @param config Optional endpoint overrides
  * @returns Promise with server response containing logID
  */
 export async function logToServer(
   token: string,
   level: LogLevel,
   pkg: FrontendPackage,
-  message: string
+  message: string,
+  config: Partial<LoggerConfig> = {}
 ): Promise<LogResponse> {
   // Input validation
   if (!token || typeof token !== 'string') {
@@ -65,7 +115,8 @@ export async function logToServer(
   };
 
   try {
-    const response = await fetch(LOGS_ENDPOINT, {
+    const { logsEndpoint } = Object.keys(config).length ? resolveLoggerConfig(config) : loggerConfig;
+    const response = await fetch(logsEndpoint, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -95,19 +146,21 @@ export async function logToServer(
 /**
  * Utility function to create a logger instance with token
  * @param token Bearer token for authentication
+ * @param config Optional endpoint overrides
  * @returns Object with logging methods for each level
  */
-export function createLogger(token: string) {
+export function createLogger(token: string, config: Partial<LoggerConfig> = {}) {
+  const resolved = resolveLoggerConfig(config);
   return {
     debug: (pkg: FrontendPackage, message: string) => 
-      logToServer(token, "debug", pkg, message),
+      logToServer(token, "debug", pkg, message, resolved),
     info: (pkg: FrontendPackage, message: string) => 
-      logToServer(token, "info", pkg, message),
+      logToServer(token, "info", pkg, message, resolved),
     warn: (pkg: FrontendPackage, message: string) => 
-      logToServer(token, "warn", pkg, message),
+      logToServer(token, "warn", pkg, message, resolved),
     error: (pkg: FrontendPackage, message: string) => 
-      logToServer(token, "error", pkg, message),
+      logToServer(token, "error", pkg, message, resolved),
     fatal: (pkg: FrontendPackage, message: string) => 
-      logToServer(token, "fatal", pkg, message),
+      logToServer(token, "fatal", pkg, message, resolved),
   };
 }
\ No newline at end of file
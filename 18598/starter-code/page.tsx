@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { logToServer, LogLevel, FrontendPackage } from '../../Logging Middleware/logger';
+import { logToServer, loggerConfig, LogLevel, FrontendPackage } from '../../Logging Middleware/logger';
 
 // Authentication types
 interface AuthCredentials {
@@ -50,7 +50,7 @@ export default function HomePage() {
     };
 
     try {
-      const response = await fetch('http://20.244.56.144/evaluation-service/auth', {
+      const response = await fetch(loggerConfig.authEndpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',